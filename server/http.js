@@ -0,0 +1,79 @@
+// Request/response helpers implementing the ApiResponse envelope
+
+export class HttpError extends Error {
+  constructor(status, message, code, details) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, Idempotency-Key'
+};
+
+export const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const sendSuccess = (res, status, data, message) =>
+  sendJson(res, status, { data, message, success: true });
+
+export const sendError = (res, error) => {
+  const status = error instanceof HttpError ? error.status : 500;
+  const body = {
+    success: false,
+    message: error instanceof HttpError ? error.message : 'Internal server error',
+    code: error instanceof HttpError ? error.code : 'INTERNAL_ERROR'
+  };
+
+  if (error instanceof HttpError && error.details !== undefined) {
+    body.details = error.details;
+  }
+
+  sendJson(res, status, body);
+};
+
+export const sendPreflight = (res) => {
+  res.writeHead(204, CORS_HEADERS);
+  res.end();
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) return resolve({});
+
+      let body;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return reject(new HttpError(400, 'Request body must be valid JSON', 'INVALID_JSON'));
+      }
+
+      if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        return reject(new HttpError(400, 'Request body must be a JSON object', 'INVALID_JSON'));
+      }
+      resolve(body);
+    });
+    req.on('error', reject);
+  });
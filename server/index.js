@@ -0,0 +1,115 @@
+// Reference server for the todo REST contract - no dependencies beyond Node itself
+//
+//   npm run server                       # listens on http://localhost:3001
+//   PORT=4000 TODO_DATA_FILE=./todos.json TRASH_RETENTION_DAYS=7 npm run server
+
+import { createServer } from 'node:http';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { JsonFileStore } from './store.js';
+import { HttpError, readJsonBody, sendError, sendPreflight, sendSuccess } from './http.js';
+import { createTodoHandlers } from './todos.js';
+import { createTagHandlers } from './tags.js';
+import { createProjectHandlers } from './projects.js';
+
+const PORT = Number(process.env.PORT) || 3001;
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const DATA_FILE = resolve(
+  process.env.TODO_DATA_FILE || resolve(dirname(fileURLToPath(import.meta.url)), 'data/todos.json')
+);
+
+const store = await new JsonFileStore(DATA_FILE).load();
+const todos = createTodoHandlers(store, { trashRetentionDays: TRASH_RETENTION_DAYS });
+const tags = createTagHandlers(store);
+const projects = createProjectHandlers(store);
+
+// Each route maps a method + path pattern to a handler returning { status, data, message }.
+// Handlers receive the path params, the JSON body (POST/PUT), the query string and the headers.
+const routes = [
+  { method: 'GET', pattern: /^\/todos$/, handle: (_, __, query) => todos.list(query) },
+  { method: 'POST', pattern: /^\/todos$/, handle: (_, body, __, headers) => todos.create(body, headers['idempotency-key']) },
+  { method: 'POST', pattern: /^\/todos\/reorder$/, handle: (_, body) => todos.reorder(body) },
+  { method: 'POST', pattern: /^\/todos\/bulk-update$/, handle: (_, body) => todos.bulkUpdate(body) },
+  { method: 'POST', pattern: /^\/todos\/bulk-delete$/, handle: (_, body) => todos.bulkDelete(body) },
+  { method: 'POST', pattern: /^\/todos\/batch$/, handle: (_, body) => todos.batch(body) },
+  { method: 'PUT', pattern: /^\/todos\/([^/]+)$/, handle: ([id], body) => todos.update(id, body) },
+  { method: 'DELETE', pattern: /^\/todos\/([^/]+)$/, handle: ([id]) => todos.remove(id) },
+  { method: 'POST', pattern: /^\/todos\/([^/]+)\/subtasks$/, handle: ([id], body) => todos.addSubtask(id, body) },
+  {
+    method: 'POST',
+    pattern: /^\/todos\/([^/]+)\/subtasks\/reorder$/,
+    handle: ([id], body) => todos.reorderSubtasks(id, body)
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/todos\/([^/]+)\/subtasks\/([^/]+)$/,
+    handle: ([id, subtaskId], body) => todos.updateSubtask(id, subtaskId, body)
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/todos\/([^/]+)\/subtasks\/([^/]+)$/,
+    handle: ([id, subtaskId], _, query) => todos.removeSubtask(id, subtaskId, query)
+  },
+  { method: 'GET', pattern: /^\/trash$/, handle: () => todos.listTrash() },
+  { method: 'DELETE', pattern: /^\/trash$/, handle: () => todos.emptyTrash() },
+  { method: 'POST', pattern: /^\/trash\/restore$/, handle: (_, body) => todos.restore(body) },
+  { method: 'DELETE', pattern: /^\/trash\/([^/]+)$/, handle: ([id]) => todos.purge(id) },
+  { method: 'GET', pattern: /^\/tags$/, handle: () => tags.list() },
+  { method: 'POST', pattern: /^\/tags$/, handle: (_, body) => tags.create(body) },
+  { method: 'POST', pattern: /^\/tags\/merge$/, handle: (_, body) => tags.merge(body) },
+  { method: 'PUT', pattern: /^\/tags\/([^/]+)$/, handle: ([id], body) => tags.update(id, body) },
+  { method: 'DELETE', pattern: /^\/tags\/([^/]+)$/, handle: ([id]) => tags.remove(id) },
+  { method: 'GET', pattern: /^\/projects$/, handle: () => projects.list() },
+  { method: 'POST', pattern: /^\/projects$/, handle: (_, body) => projects.create(body) },
+  { method: 'PUT', pattern: /^\/projects\/([^/]+)$/, handle: ([id], body) => projects.update(id, body) },
+  { method: 'DELETE', pattern: /^\/projects\/([^/]+)$/, handle: ([id]) => projects.remove(id) }
+];
+
+const decodePathSegment = (segment) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`, 'VALIDATION_ERROR', { field: 'path' });
+  }
+};
+
+// Handlers run one at a time. An atomic batch that fails restores a snapshot of the whole store,
+// which must not undo what another request saved meanwhile, nor be seen half applied.
+let pending = Promise.resolve();
+const runExclusively = (task) => {
+  const result = pending.then(task);
+  pending = result.catch(() => {});
+  return result;
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return sendPreflight(res);
+
+  const { pathname, searchParams } = new URL(req.url, `http://${req.headers.host}`);
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  try {
+    const matches = routes.filter((route) => route.pattern.test(path));
+    if (matches.length === 0) {
+      throw new HttpError(404, `No route for ${path}`, 'ROUTE_NOT_FOUND');
+    }
+
+    const route = matches.find((candidate) => candidate.method === req.method);
+    if (!route) {
+      throw new HttpError(405, `Method ${req.method} not allowed on ${path}`, 'METHOD_NOT_ALLOWED');
+    }
+
+    const params = path.match(route.pattern).slice(1).map(decodePathSegment);
+    const body = ['POST', 'PUT'].includes(req.method) ? await readJsonBody(req) : undefined;
+    const result = await runExclusively(() => route.handle(params, body, searchParams, req.headers));
+
+    sendSuccess(res, result.status, result.data, result.message);
+  } catch (error) {
+    if (!(error instanceof HttpError)) console.error(error);
+    sendError(res, error);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Todo API listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
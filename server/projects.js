@@ -0,0 +1,109 @@
+// /projects route handlers - todos reference a project by id; none means the Inbox
+
+import { randomUUID } from 'node:crypto';
+import { HttpError } from './http.js';
+
+const NAME_MAX_LENGTH = 50;
+const COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+const ICONS = ['folder', 'briefcase', 'home', 'book', 'code', 'heart', 'star', 'rocket', 'cart'];
+
+const validationError = (message, field) =>
+  new HttpError(400, message, 'VALIDATION_ERROR', { field });
+
+export const projectNotFound = () => new HttpError(404, 'Project not found', 'NOT_FOUND');
+
+const parseName = (value) => {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > NAME_MAX_LENGTH) {
+    throw validationError(`Project names must be 1-${NAME_MAX_LENGTH} characters long`, 'name');
+  }
+  return value.trim();
+};
+
+const parseOption = (value, options, field, fallback) => {
+  if (value === undefined) return fallback;
+  if (!options.includes(value)) {
+    throw validationError(`${field[0].toUpperCase()}${field.slice(1)} must be one of: ${options.join(', ')}`, field);
+  }
+  return value;
+};
+
+const findProject = (store, id) => {
+  const project = store.projects.find((candidate) => candidate.id === id);
+  if (!project) throw projectNotFound();
+  return project;
+};
+
+// Validates a todo's projectId; null clears it (moves the todo to the Inbox)
+export const parseProjectId = (store, value) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw validationError('projectId must be a string', 'projectId');
+  return findProject(store, value).id;
+};
+
+export const createProjectHandlers = (store) => ({
+  // GET /projects
+  async list() {
+    const openTodos = store.todos.filter((todo) => !todo.deletedAt && !todo.completed);
+    const projects = [...store.projects]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map((project) => ({
+        ...project,
+        activeCount: openTodos.filter((todo) => todo.projectId === project.id).length
+      }));
+    return { status: 200, data: projects, message: 'Projects fetched successfully' };
+  },
+
+  // POST /projects
+  async create(body) {
+    const now = new Date().toISOString();
+    const project = {
+      id: randomUUID(),
+      name: parseName(body.name),
+      color: parseOption(body.color, COLORS, 'color', 'gray'),
+      icon: parseOption(body.icon, ICONS, 'icon', 'folder'),
+      archived: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    store.projects.push(project);
+    await store.flush();
+
+    return { status: 201, data: project, message: 'Project created successfully' };
+  },
+
+  // PUT /projects/:id
+  async update(id, body) {
+    const existing = findProject(store, id);
+    if (body.archived !== undefined && typeof body.archived !== 'boolean') {
+      throw validationError('Archived must be a boolean', 'archived');
+    }
+
+    const project = {
+      ...existing,
+      name: body.name !== undefined ? parseName(body.name) : existing.name,
+      color: parseOption(body.color, COLORS, 'color', existing.color),
+      icon: parseOption(body.icon, ICONS, 'icon', existing.icon),
+      archived: body.archived ?? existing.archived,
+      updatedAt: new Date().toISOString()
+    };
+    store.projects = store.projects.map((candidate) => (candidate.id === id ? project : candidate));
+    await store.flush();
+
+    return { status: 200, data: project, message: 'Project updated successfully' };
+  },
+
+  // DELETE /projects/:id - todos of the project move to the Inbox
+  async remove(id) {
+    findProject(store, id);
+    store.todos = store.todos.map((todo) => {
+      if (todo.projectId !== id) return todo;
+      const { projectId, ...rest } = todo;
+      return { ...rest, version: todo.version + 1, updatedAt: new Date().toISOString() };
+    });
+    store.projects = store.projects.filter((project) => project.id !== id);
+    await store.flush();
+
+    return { status: 200, data: null, message: 'Project deleted; its todos moved to the Inbox' };
+  }
+});
@@ -0,0 +1,36 @@
+// Fractional ranks for manual ordering - mirrors src/lib/ranking.ts
+
+const RANK_STEP = 1024;
+
+export const rankForNewTodo = (createdAt) => -new Date(createdAt).getTime();
+
+export const compareRank = (a, b) => a.rank - b.rank;
+
+// Increasing ranks strictly between two neighbours, or null once precision runs out
+const ranksBetween = (before, after, count) => {
+  const lower = before ?? (after === undefined ? 0 : after - (count + 1) * RANK_STEP);
+  const upper = after ?? lower + (count + 1) * RANK_STEP;
+  const step = (upper - lower) / (count + 1);
+  const ranks = Array.from({ length: count }, (_, i) => lower + step * (i + 1));
+
+  const bounded = [lower, ...ranks, upper];
+  return bounded.every((rank, i) => i === 0 || rank > bounded[i - 1]) ? ranks : null;
+};
+
+// New ranks placing `ids` right after `afterId` (or first when null); returns only the changed todos
+export const reorderByRank = (todos, ids, afterId) => {
+  const sorted = [...todos].sort(compareRank);
+  const moving = ids.map((id) => sorted.find((todo) => todo.id === id));
+  const rest = sorted.filter((todo) => !ids.includes(todo.id));
+  const afterIndex = afterId === null ? -1 : rest.findIndex((todo) => todo.id === afterId);
+
+  const ranks = ranksBetween(rest[afterIndex]?.rank, rest[afterIndex + 1]?.rank, moving.length);
+  if (ranks) {
+    return moving.map((todo, i) => ({ ...todo, rank: ranks[i] }));
+  }
+
+  const reordered = [...rest.slice(0, afterIndex + 1), ...moving, ...rest.slice(afterIndex + 1)];
+  return reordered
+    .map((todo, i) => ({ ...todo, rank: (i + 1) * RANK_STEP }))
+    .filter((todo, i) => todo.rank !== reordered[i].rank);
+};
@@ -0,0 +1,118 @@
+// Next-occurrence math for recurring todos - mirrors src/lib/recurrence.ts without date-fns
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL_MAX = 365;
+const FREQUENCIES = ['daily', 'weekdays', 'weekly', 'monthly', 'yearly', 'afterCompletion'];
+const MONTHLY_MODES = ['dayOfMonth', 'nthWeekday'];
+
+const startOfDay = (date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date, days) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysInMonth = (year, month) => new Date(year, month + 1, 0).getDate();
+
+const startOfWeek = (date) => addDays(date, -date.getDay());
+
+// 1-4 for the first four, 5 for the last of its weekday in the month
+const getNthWeekday = (date) =>
+  date.getDate() + 7 > daysInMonth(date.getFullYear(), date.getMonth()) ? 5 : Math.ceil(date.getDate() / 7);
+
+const nthWeekdayOfMonth = (year, month, weekday, nth) => {
+  if (nth === 5) {
+    const last = new Date(year, month, daysInMonth(year, month));
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const first = new Date(year, month, 1);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+};
+
+const isLastDayOfMonth = (date) => date.getDate() === daysInMonth(date.getFullYear(), date.getMonth());
+
+// A date that a shorter month moved to its last day keeps the rule's later day
+const getMonthlyDay = (rule, date) =>
+  rule.dayOfMonth > date.getDate() && isLastDayOfMonth(date) ? rule.dayOfMonth : date.getDate();
+
+// Pins a monthly schedule's day to the due date so occurrences after a shorter month return to it
+export const anchorRecurrence = (todo) => {
+  const rule = todo.recurrence;
+  if (!rule || rule.frequency !== 'monthly' || rule.monthlyMode === 'nthWeekday') return rule;
+
+  const { dayOfMonth, ...unanchored } = rule;
+  if (!todo.dueDate) return unanchored;
+  return { ...unanchored, dayOfMonth: getMonthlyDay(rule, new Date(todo.dueDate)) };
+};
+
+const nextScheduledDate = (rule, from) => {
+  const { interval } = rule;
+
+  switch (rule.frequency) {
+    case 'weekdays': {
+      let next = addDays(from, 1);
+      while (next.getDay() === 0 || next.getDay() === 6) next = addDays(next, 1);
+      return next;
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+      for (let offset = 1; offset <= 7 * INTERVAL_MAX; offset++) {
+        const candidate = addDays(from, offset);
+        const weeksApart = Math.round((startOfWeek(candidate) - startOfWeek(from)) / (7 * DAY_MS));
+        if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return addDays(from, 7 * interval);
+    }
+    case 'monthly': {
+      const target = new Date(from.getFullYear(), from.getMonth() + interval, 1);
+      const [year, month] = [target.getFullYear(), target.getMonth()];
+      return rule.monthlyMode === 'nthWeekday'
+        ? nthWeekdayOfMonth(year, month, from.getDay(), getNthWeekday(from))
+        : new Date(year, month, Math.min(rule.dayOfMonth ?? from.getDate(), daysInMonth(year, month)));
+    }
+    case 'yearly': {
+      const year = from.getFullYear() + interval;
+      return new Date(year, from.getMonth(), Math.min(from.getDate(), daysInMonth(year, from.getMonth())));
+    }
+    default:
+      // daily and afterCompletion
+      return addDays(from, interval);
+  }
+};
+
+// Scheduled rules skip past dates; "after completion" counts from the completion day
+export const getNextOccurrenceDate = (todo, completedAt = new Date()) => {
+  const rule = anchorRecurrence(todo);
+  const today = startOfDay(completedAt);
+  if (rule.frequency === 'afterCompletion' || !todo.dueDate) {
+    return nextScheduledDate(rule, today);
+  }
+
+  let next = nextScheduledDate(rule, startOfDay(new Date(todo.dueDate)));
+  while (next < today) next = nextScheduledDate(rule, next);
+  return next;
+};
+
+// Returns a normalized rule, or null when the value clears the recurrence
+export const parseRecurrence = (value, validationError) => {
+  if (value === undefined || value === null) return null;
+
+  const isValid =
+    typeof value === 'object' &&
+    FREQUENCIES.includes(value.frequency) &&
+    Number.isInteger(value.interval) &&
+    value.interval >= 1 &&
+    value.interval <= INTERVAL_MAX &&
+    (value.weekdays === undefined ||
+      (Array.isArray(value.weekdays) && value.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))) &&
+    (value.monthlyMode === undefined || MONTHLY_MODES.includes(value.monthlyMode)) &&
+    (value.dayOfMonth === undefined ||
+      (Number.isInteger(value.dayOfMonth) && value.dayOfMonth >= 1 && value.dayOfMonth <= 31));
+
+  if (!isValid) {
+    throw validationError(`Recurrence needs a known frequency and an interval of 1-${INTERVAL_MAX}`, 'recurrence');
+  }
+
+  const rule = { frequency: value.frequency, interval: value.interval };
+  if (value.weekdays !== undefined) rule.weekdays = value.weekdays;
+  if (value.monthlyMode !== undefined) rule.monthlyMode = value.monthlyMode;
+  if (value.dayOfMonth !== undefined) rule.dayOfMonth = value.dayOfMonth;
+  return rule;
+};
@@ -0,0 +1,69 @@
+// Todo sort orders for GET /todos - mirrors src/lib/sorting.ts
+
+import { compareRank } from './ranking.js';
+
+export const SORT_FIELDS = ['manual', 'dueDate', 'priority', 'title', 'updatedAt', 'completedAt'];
+
+const PRIORITY_RANKS = { none: 0, low: 1, medium: 2, high: 3, urgent: 4 };
+
+// The due time, or the end of the due day (in the server's time zone)
+const dueTime = (todo) => {
+  if (!todo.dueDate) return undefined;
+  const moment = new Date(todo.dueDate);
+  if (todo.dueTime) {
+    const [hours, minutes] = todo.dueTime.split(':').map(Number);
+    moment.setHours(hours, minutes, 0, 0);
+  } else {
+    moment.setHours(23, 59, 59, 999);
+  }
+  return moment.getTime();
+};
+
+const timeOf = (value) => (value ? new Date(value).getTime() : undefined);
+
+// Missing values sort last whichever direction is chosen
+const byOptionalTime = (getTime, direction) => (a, b) => {
+  const timeA = getTime(a);
+  const timeB = getTime(b);
+  if (timeA === undefined || timeB === undefined) {
+    return (timeA === undefined ? 1 : 0) - (timeB === undefined ? 1 : 0);
+  }
+  return direction === 'asc' ? timeA - timeB : timeB - timeA;
+};
+
+const reversible = (compare, direction) => (direction === 'asc' ? compare : (a, b) => compare(b, a));
+
+const comparePriority = (a, b) => (PRIORITY_RANKS[b.priority] ?? 0) - (PRIORITY_RANKS[a.priority] ?? 0);
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+const primaryComparators = {
+  manual: () => compareRank,
+  dueDate: (direction) => byOptionalTime(dueTime, direction),
+  priority: (direction) => reversible((a, b) => -comparePriority(a, b), direction),
+  title: (direction) => reversible((a, b) => titleCollator.compare(a.title, b.title), direction),
+  updatedAt: (direction) => reversible((a, b) => timeOf(a.updatedAt) - timeOf(b.updatedAt), direction),
+  completedAt: (direction) => byOptionalTime((todo) => timeOf(todo.completedAt), direction)
+};
+
+// Ties fall back to the soonest due date, then the highest priority, then the manual order
+const tieBreakers = [
+  ['dueDate', byOptionalTime(dueTime, 'asc')],
+  ['priority', comparePriority],
+  ['manual', compareRank]
+];
+
+export const compareTodos = ({ field, direction }) => {
+  const comparators = [
+    primaryComparators[field](direction),
+    ...tieBreakers.filter(([tieField]) => tieField !== field).map(([, compare]) => compare)
+  ];
+
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return a.id.localeCompare(b.id);
+  };
+};
@@ -0,0 +1,151 @@
+// JSON file persistence for the reference server
+
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { rankForNewTodo } from './ranking.js';
+
+// Ranks follow the default for new todos (negated creation time), so they list newest first
+const seedTodos = [
+  {
+    id: '1',
+    title: 'Complete project documentation',
+    description: 'Write comprehensive README and code comments for the portfolio project',
+    completed: false,
+    priority: 'high',
+    projectId: 'portfolio',
+    tags: ['docs'],
+    subtasks: [
+      { id: '1-1', title: 'Write the README', completed: true, order: 0 },
+      { id: '1-2', title: 'Document the API layer', completed: false, order: 1 },
+      { id: '1-3', title: 'Add code comments', completed: false, order: 2 }
+    ],
+    rank: -1705312800000,
+    version: 1,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z'
+  },
+  {
+    id: '2',
+    title: 'Review TypeScript best practices',
+    description: 'Study advanced TypeScript patterns for better code organization',
+    completed: true,
+    priority: 'medium',
+    tags: ['learning'],
+    subtasks: [],
+    rank: -1705242600000,
+    version: 1,
+    createdAt: '2024-01-14T14:30:00.000Z',
+    updatedAt: '2024-01-15T09:15:00.000Z',
+    completedAt: '2024-01-15T09:15:00.000Z'
+  },
+  {
+    id: '3',
+    title: 'Design system implementation',
+    description: 'Create consistent UI components with Tailwind CSS',
+    completed: false,
+    priority: 'low',
+    projectId: 'portfolio',
+    tags: ['design'],
+    subtasks: [],
+    rank: -1705394700000,
+    version: 1,
+    createdAt: '2024-01-16T08:45:00.000Z',
+    updatedAt: '2024-01-16T08:45:00.000Z'
+  }
+];
+
+const seedTags = [
+  { id: 'docs', name: 'docs', color: 'blue', createdAt: '2024-01-14T14:00:00.000Z' },
+  { id: 'learning', name: 'learning', color: 'purple', createdAt: '2024-01-14T14:00:00.000Z' },
+  { id: 'design', name: 'design', color: 'pink', createdAt: '2024-01-14T14:00:00.000Z' }
+];
+
+const seedProjects = [
+  {
+    id: 'portfolio',
+    name: 'Portfolio',
+    color: 'blue',
+    icon: 'briefcase',
+    archived: false,
+    createdAt: '2024-01-14T14:00:00.000Z',
+    updatedAt: '2024-01-14T14:00:00.000Z'
+  }
+];
+
+export class JsonFileStore {
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.data = null;
+    // Writes are chained so concurrent requests never interleave on disk
+    this.pending = Promise.resolve();
+  }
+
+  async load() {
+    try {
+      // Collections added after the file was written start out empty
+      this.data = { tags: [], projects: [], ...JSON.parse(await readFile(this.filePath, 'utf8')) };
+      // Todos written before manual ordering existed rank by creation time, ones written before
+      // versioning start at version 1, and completed ones stored before completion times were
+      // tracked count as completed at their last update
+      this.data.todos = this.data.todos.map((todo) => ({
+        rank: rankForNewTodo(todo.createdAt),
+        version: 1,
+        ...(todo.completed && !todo.completedAt ? { completedAt: todo.updatedAt } : {}),
+        ...todo
+      }));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      this.data = { todos: seedTodos, tags: seedTags, projects: seedProjects };
+      await this.flush();
+    }
+    return this;
+  }
+
+  get todos() {
+    return this.data.todos;
+  }
+
+  set todos(todos) {
+    this.data.todos = todos;
+  }
+
+  get tags() {
+    return this.data.tags;
+  }
+
+  set tags(tags) {
+    this.data.tags = tags;
+  }
+
+  get projects() {
+    return this.data.projects;
+  }
+
+  set projects(projects) {
+    this.data.projects = projects;
+  }
+
+  // Deep copy of every collection, for rolling back a failed multi-step change
+  snapshot() {
+    return structuredClone(this.data);
+  }
+
+  restore(snapshot) {
+    this.data = snapshot;
+    return this.flush();
+  }
+
+  // Write to a temp file first so a crash mid-write never corrupts the data file. Writes run in
+  // order; a failed one only fails its own request, so later writes still get their chance.
+  flush() {
+    const snapshot = JSON.stringify(this.data, null, 2);
+    const write = this.pending.catch(() => {}).then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot);
+      await rename(tempPath, this.filePath);
+    });
+    this.pending = write;
+    return write;
+  }
+}
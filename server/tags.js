@@ -0,0 +1,156 @@
+// /tags route handlers - tags are referenced by name from todo.tags
+
+import { randomUUID } from 'node:crypto';
+import { HttpError } from './http.js';
+
+const TAG_NAME_MAX_LENGTH = 30;
+const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+const DEFAULT_TAG_COLOR = 'gray';
+
+const validationError = (message, field) =>
+  new HttpError(400, message, 'VALIDATION_ERROR', { field });
+
+const notFound = () => new HttpError(404, 'Tag not found', 'NOT_FOUND');
+
+// Tag names are unique case-insensitively
+const normalize = (name) => name.trim().toLowerCase();
+
+const parseName = (value) => {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > TAG_NAME_MAX_LENGTH) {
+    throw validationError(`Tag names must be 1-${TAG_NAME_MAX_LENGTH} characters long`, 'name');
+  }
+  return value.trim();
+};
+
+const parseColor = (value) => {
+  if (value === undefined) return DEFAULT_TAG_COLOR;
+  if (!TAG_COLORS.includes(value)) {
+    throw validationError(`Color must be one of: ${TAG_COLORS.join(', ')}`, 'color');
+  }
+  return value;
+};
+
+const findTag = (store, id) => {
+  const tag = store.tags.find((candidate) => candidate.id === id);
+  if (!tag) throw notFound();
+  return tag;
+};
+
+const assertNameAvailable = (store, name, exceptId) => {
+  const clash = store.tags.find((tag) => tag.id !== exceptId && normalize(tag.name) === normalize(name));
+  if (clash) {
+    throw new HttpError(409, `A tag named "${clash.name}" already exists`, 'CONFLICT', { tagId: clash.id });
+  }
+};
+
+// Maps names to existing tags and creates tags for new names; returns canonical names. Every name
+// is checked before any tag is created, so an invalid one leaves no tags behind.
+export const resolveTagNames = (store, value) => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw validationError('tags must be an array of strings', 'tags');
+
+  const resolved = [];
+  for (const name of value.map(parseName)) {
+    let tag = store.tags.find((candidate) => normalize(candidate.name) === normalize(name));
+    if (!tag) {
+      tag = { id: randomUUID(), name, color: DEFAULT_TAG_COLOR, createdAt: new Date().toISOString() };
+      store.tags.push(tag);
+    }
+    if (!resolved.includes(tag.name)) resolved.push(tag.name);
+  }
+  return resolved;
+};
+
+// Removes and then adds tag names; existing tags keep their order
+export const applyTagChanges = (tags = [], add = [], remove = []) => {
+  const removed = new Set(remove.map(normalize));
+  return add.reduce(
+    (result, tag) => (result.some((existing) => normalize(existing) === normalize(tag)) ? result : [...result, tag]),
+    tags.filter((tag) => !removed.has(normalize(tag)))
+  );
+};
+
+// Replaces (or with null, removes) tag names on every todo, trashed ones included
+const retagTodos = (store, names, replacement) => {
+  const targets = new Set(names.map(normalize));
+  store.todos = store.todos.map((todo) => {
+    const tags = todo.tags ?? [];
+    if (!tags.some((name) => targets.has(normalize(name)))) return todo;
+
+    const next = tags
+      .map((name) => (targets.has(normalize(name)) ? replacement : name))
+      .filter((name, index, all) => name !== null && all.indexOf(name) === index);
+    return { ...todo, tags: next, version: todo.version + 1, updatedAt: new Date().toISOString() };
+  });
+};
+
+export const createTagHandlers = (store) => ({
+  // GET /tags
+  async list() {
+    const usage = new Map();
+    store.todos
+      .filter((todo) => !todo.deletedAt)
+      .forEach((todo) => (todo.tags ?? []).forEach((name) => {
+        usage.set(normalize(name), (usage.get(normalize(name)) ?? 0) + 1);
+      }));
+
+    const tags = store.tags
+      .map((tag) => ({ ...tag, usageCount: usage.get(normalize(tag.name)) ?? 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { status: 200, data: tags, message: 'Tags fetched successfully' };
+  },
+
+  // POST /tags
+  async create(body) {
+    const name = parseName(body.name);
+    assertNameAvailable(store, name);
+
+    const tag = { id: randomUUID(), name, color: parseColor(body.color), createdAt: new Date().toISOString() };
+    store.tags.push(tag);
+    await store.flush();
+
+    return { status: 201, data: tag, message: 'Tag created successfully' };
+  },
+
+  // PUT /tags/:id
+  async update(id, body) {
+    const existing = findTag(store, id);
+    const name = body.name !== undefined ? parseName(body.name) : existing.name;
+    const color = body.color !== undefined ? parseColor(body.color) : existing.color;
+    assertNameAvailable(store, name, id);
+
+    const tag = { ...existing, name, color };
+    store.tags = store.tags.map((candidate) => (candidate.id === id ? tag : candidate));
+    if (name !== existing.name) retagTodos(store, [existing.name], name);
+    await store.flush();
+
+    return { status: 200, data: tag, message: 'Tag updated successfully' };
+  },
+
+  // POST /tags/merge
+  async merge(body) {
+    if (!Array.isArray(body.sourceIds) || typeof body.targetId !== 'string') {
+      throw validationError('sourceIds (array) and targetId are required', 'sourceIds');
+    }
+
+    const target = findTag(store, body.targetId);
+    const sources = body.sourceIds.filter((id) => id !== target.id).map((id) => findTag(store, id));
+    const sourceIds = new Set(sources.map((tag) => tag.id));
+
+    retagTodos(store, sources.map((tag) => tag.name), target.name);
+    store.tags = store.tags.filter((tag) => !sourceIds.has(tag.id));
+    await store.flush();
+
+    return { status: 200, data: target, message: `${sources.length} tag(s) merged into "${target.name}"` };
+  },
+
+  // DELETE /tags/:id
+  async remove(id) {
+    const tag = findTag(store, id);
+    retagTodos(store, [tag.name], null);
+    store.tags = store.tags.filter((candidate) => candidate.id !== id);
+    await store.flush();
+
+    return { status: 200, data: null, message: 'Tag deleted successfully' };
+  }
+});
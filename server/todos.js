@@ -0,0 +1,600 @@
+// /todos route handlers - same semantics as the mock TodoApiService
+
+import { randomUUID } from 'node:crypto';
+import { HttpError } from './http.js';
+import { applyTagChanges, resolveTagNames } from './tags.js';
+import { anchorRecurrence, getNextOccurrenceDate, parseRecurrence } from './recurrence.js';
+import { parseProjectId } from './projects.js';
+import { rankForNewTodo, reorderByRank } from './ranking.js';
+import { compareTodos, SORT_FIELDS } from './sorting.js';
+
+const TITLE_MAX_LENGTH = 100;
+const DESCRIPTION_MAX_LENGTH = 500;
+const SUBTASK_TITLE_MAX_LENGTH = 100;
+const IDEMPOTENCY_KEY_LIMIT = 1000;
+
+const validationError = (message, field) =>
+  new HttpError(400, message, 'VALIDATION_ERROR', { field });
+
+const notFound = () => new HttpError(404, 'Todo not found', 'NOT_FOUND');
+
+const subtaskNotFound = () => new HttpError(404, 'Subtask not found', 'NOT_FOUND');
+
+const parseTitle = (value) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw validationError('Title is required', 'title');
+  }
+  if (value.trim().length > TITLE_MAX_LENGTH) {
+    throw validationError(`Title must be at most ${TITLE_MAX_LENGTH} characters`, 'title');
+  }
+  return value.trim();
+};
+
+const parseDescription = (value) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    throw validationError('Description must be a string', 'description');
+  }
+  if (value.trim().length > DESCRIPTION_MAX_LENGTH) {
+    throw validationError(`Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`, 'description');
+  }
+  return value.trim();
+};
+
+const PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'];
+
+const parsePriority = (value) => {
+  if (value === undefined || value === null) return 'none';
+  if (!PRIORITIES.includes(value)) {
+    throw validationError(`Priority must be one of: ${PRIORITIES.join(', ')}`, 'priority');
+  }
+  return value;
+};
+
+// Due dates are ISO timestamps; null (or omitting them on create) means no due date
+const parseDueDate = (value) => {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value);
+  if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+    throw validationError('Due date must be an ISO date string', 'dueDate');
+  }
+  return date.toISOString();
+};
+
+const parseDueTime = (value) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    throw validationError('Due time must use the HH:mm format', 'dueTime');
+  }
+  return value;
+};
+
+// Optional fields are omitted rather than stored as null
+const withoutNulls = (todo) =>
+  Object.fromEntries(Object.entries(todo).filter(([, value]) => value !== null));
+
+const parseBoolean = (value, field) => {
+  if (typeof value !== 'boolean') {
+    throw validationError(`${field} must be a boolean`, field);
+  }
+  return value;
+};
+
+const parseCompleted = (value) => parseBoolean(value, 'completed');
+
+// ?sort=<field>&order=asc|desc, defaulting to the manual order
+const parseSort = (query) => {
+  const field = query.get('sort') ?? 'manual';
+  const direction = query.get('order') ?? 'asc';
+  if (!SORT_FIELDS.includes(field) || !['asc', 'desc'].includes(direction)) {
+    throw validationError(`Sort must be one of: ${SORT_FIELDS.join(', ')}, ascending or descending`, 'sort');
+  }
+  return { field, direction };
+};
+
+// Sets the completion state, stamping completedAt only when it actually changes
+const withCompletion = (todo, completed) => {
+  if (completed === todo.completed) return todo;
+  const { completedAt, ...rest } = todo;
+  return completed ? { ...rest, completed, completedAt: new Date().toISOString() } : { ...rest, completed };
+};
+
+const parseSubtaskTitle = (value) => {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > SUBTASK_TITLE_MAX_LENGTH) {
+    throw validationError(`Subtask titles must be 1-${SUBTASK_TITLE_MAX_LENGTH} characters long`, 'title');
+  }
+  return value.trim();
+};
+
+const sortSubtasks = (subtasks = []) => [...subtasks].sort((a, b) => a.order - b.order);
+
+// Renumbers the checklist; with completeWithSubtasks the parent follows it
+const withSubtasks = (todo, subtasks) => {
+  const ordered = subtasks.map((subtask, index) => ({ ...subtask, order: index }));
+  const syncsCompletion = todo.completeWithSubtasks && ordered.length > 0;
+
+  return withCompletion(
+    { ...todo, subtasks: ordered, updatedAt: new Date().toISOString() },
+    syncsCompletion ? ordered.every((subtask) => subtask.completed) : todo.completed
+  );
+};
+
+// Every change to a todo moves it to the next version, trashing and re-ranking included
+const bumpVersion = (todo) => ({ ...todo, version: todo.version + 1, updatedAt: new Date().toISOString() });
+
+// Updates name the version they were made against; a stale one means someone else changed the todo first
+const checkVersion = (todo, value) => {
+  if (!Number.isInteger(value)) throw validationError('Version is required', 'version');
+  if (value !== todo.version) {
+    throw new HttpError(
+      409,
+      'This task was changed elsewhere. Review the latest version and try again.',
+      'CONFLICT',
+      { todo }
+    );
+  }
+};
+
+// Deletes carry the version in the query string since they have no body
+const parseQueryVersion = (query) => {
+  const value = query.get('version');
+  return value !== null && /^\d+$/.test(value) ? Number(value) : undefined;
+};
+
+const findSubtask = (todo, subtaskId) => {
+  const subtask = (todo.subtasks ?? []).find((candidate) => candidate.id === subtaskId);
+  if (!subtask) throw subtaskNotFound();
+  return subtask;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isTrashed = (todo) => Boolean(todo.deletedAt);
+
+// Looks up a todo that is (or, with `trashed`, is not) in the trash
+const findIndex = (store, id, { trashed = false } = {}) => {
+  const index = store.todos.findIndex((todo) => todo.id === id && isTrashed(todo) === trashed);
+  if (index === -1) throw notFound();
+  return index;
+};
+
+const parseIds = (value) => {
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string')) {
+    throw validationError('ids must be an array of strings', 'ids');
+  }
+  return value;
+};
+
+const parseBulkIds = (value) => {
+  const ids = parseIds(value);
+  if (ids.length === 0) throw validationError('Select at least one todo', 'ids');
+  return ids;
+};
+
+const parseTagList = (value, field) => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((name) => typeof name !== 'string')) {
+    throw validationError(`${field} must be an array of strings`, field);
+  }
+  return value;
+};
+
+const BATCH_MAX_OPERATIONS = 100;
+
+const parseOperations = (value) => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > BATCH_MAX_OPERATIONS) {
+    throw validationError(`A batch takes 1-${BATCH_MAX_OPERATIONS} operations`, 'operations');
+  }
+  return value;
+};
+
+const parseBatchMode = (value) => {
+  if (value === undefined) return 'atomic';
+  if (value !== 'atomic' && value !== 'bestEffort') {
+    throw validationError('Mode must be atomic or bestEffort', 'mode');
+  }
+  return value;
+};
+
+// Plain error object for a batch result
+const toBatchError = (error) => {
+  if (error instanceof HttpError) {
+    return { message: error.message, code: error.code, ...(error.details !== undefined && { details: error.details }) };
+  }
+  console.error(error);
+  return { message: 'Internal server error', code: 'INTERNAL_ERROR' };
+};
+
+// Results of a rolled back atomic batch: the failure plus every other operation marked as not applied
+const abortedBatchResults = (count, failedIndex, failure) =>
+  Array.from({ length: count }, (_, index) => ({
+    ok: false,
+    error: index === failedIndex
+      ? failure
+      : { message: `Not applied because operation ${failedIndex + 1} failed`, code: 'ABORTED' }
+  }));
+
+// Batch operations go through the single-todo handlers, so each one can fail on its own
+const runBatchOperation = (handlers, operation) => {
+  switch (operation?.type) {
+    case 'create':
+      return handlers.create(operation.input ?? {});
+    case 'update':
+      if (typeof operation.id !== 'string') throw validationError('id must be a string', 'id');
+      return handlers.update(operation.id, operation.input ?? {});
+    case 'delete':
+      if (typeof operation.id !== 'string') throw validationError('id must be a string', 'id');
+      return handlers.remove(operation.id);
+    default:
+      throw validationError('Operation type must be create, update or delete', 'type');
+  }
+};
+
+export const createTodoHandlers = (store, { trashRetentionDays }) => {
+  // Completing a recurring todo creates its next occurrence; completing it again after reopening
+  // reuses that occurrence while it still exists
+  const scheduleNextOccurrence = (previous, updated) => {
+    if (!updated.recurrence || previous.completed || !updated.completed) return updated;
+    if (updated.nextOccurrenceId && store.todos.some((todo) => todo.id === updated.nextOccurrenceId)) {
+      return updated;
+    }
+
+    const now = new Date().toISOString();
+    const seriesId = updated.seriesId ?? updated.id;
+    const { nextOccurrenceId, completedAt, ...template } = updated;
+    store.todos.push({
+      ...template,
+      id: randomUUID(),
+      completed: false,
+      subtasks: (updated.subtasks ?? []).map((subtask) => ({ ...subtask, id: randomUUID(), completed: false })),
+      dueDate: getNextOccurrenceDate(updated).toISOString(),
+      recurrence: anchorRecurrence(updated),
+      seriesId,
+      rank: rankForNewTodo(now),
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return { ...updated, seriesId, nextOccurrenceId: store.todos[store.todos.length - 1].id };
+  };
+
+  // Todo ids by idempotency key, so a retried create returns the todo the first request made.
+  // Kept in memory for the most recent keys only; retries follow within seconds.
+  const createdByKey = new Map();
+  const rememberKey = (key, id) => {
+    createdByKey.set(key, id);
+    if (createdByKey.size > IDEMPOTENCY_KEY_LIMIT) {
+      createdByKey.delete(createdByKey.keys().next().value);
+    }
+  };
+
+  // Store indexes of active todos, reporting every missing id at once
+  const findIndexes = (ids) => {
+    const uniqueIds = [...new Set(ids)];
+    const indexes = uniqueIds.map((id) => store.todos.findIndex((todo) => todo.id === id && !isTrashed(todo)));
+    const missingIds = uniqueIds.filter((_, i) => indexes[i] === -1);
+    if (missingIds.length > 0) {
+      throw new HttpError(404, 'Todo not found', 'NOT_FOUND', { ids: missingIds });
+    }
+    return indexes;
+  };
+
+  // Drop trashed todos whose retention period has passed
+  const purgeExpired = async () => {
+    const cutoff = Date.now() - trashRetentionDays * DAY_MS;
+    const kept = store.todos.filter(
+      (todo) => !isTrashed(todo) || new Date(todo.deletedAt).getTime() > cutoff
+    );
+
+    if (kept.length !== store.todos.length) {
+      store.todos = kept;
+      await store.flush();
+    }
+  };
+
+  return {
+    // GET /todos?sort=<field>&order=<direction>
+    async list(query) {
+      const sort = parseSort(query);
+      await purgeExpired();
+      const todos = store.todos.filter((todo) => !isTrashed(todo)).sort(compareTodos(sort));
+      return { status: 200, data: todos, message: 'Todos fetched successfully' };
+    },
+
+    // POST /todos (Idempotency-Key header optional)
+    async create(body, idempotencyKey) {
+      const previous = idempotencyKey && store.todos.find((todo) => todo.id === createdByKey.get(idempotencyKey));
+      if (previous) {
+        return { status: 200, data: previous, message: 'Todo already created' };
+      }
+
+      const now = new Date().toISOString();
+      const dueDate = parseDueDate(body.dueDate);
+      const todo = withoutNulls({
+        id: randomUUID(),
+        title: parseTitle(body.title),
+        description: parseDescription(body.description),
+        completed: false,
+        priority: parsePriority(body.priority),
+        projectId: parseProjectId(store, body.projectId),
+        tags: [],
+        dueDate,
+        dueTime: dueDate ? parseDueTime(body.dueTime) : null,
+        subtasks: [],
+        recurrence: parseRecurrence(body.recurrence, validationError),
+        rank: rankForNewTodo(now),
+        version: 1,
+        createdAt: now,
+        updatedAt: now
+      });
+      // New tags are only saved once the rest of the body has passed validation
+      todo.tags = resolveTagNames(store, body.tags);
+
+      store.todos.push(todo);
+      await store.flush();
+      if (idempotencyKey) rememberKey(idempotencyKey, todo.id);
+
+      return { status: 201, data: todo, message: 'Todo created successfully' };
+    },
+
+    // PUT /todos/:id
+    async update(id, body) {
+      const index = findIndex(store, id);
+      checkVersion(store.todos[index], body.version);
+      const changes = {};
+
+      if (body.title !== undefined) changes.title = parseTitle(body.title);
+      if (body.description !== undefined) changes.description = parseDescription(body.description);
+      if (body.priority !== undefined) changes.priority = parsePriority(body.priority);
+      if (body.projectId !== undefined) changes.projectId = parseProjectId(store, body.projectId);
+      if (body.dueDate !== undefined) changes.dueDate = parseDueDate(body.dueDate);
+      if (body.dueTime !== undefined) changes.dueTime = parseDueTime(body.dueTime);
+      if (body.recurrence !== undefined) changes.recurrence = parseRecurrence(body.recurrence, validationError);
+      if (body.completeWithSubtasks !== undefined) {
+        changes.completeWithSubtasks = parseBoolean(body.completeWithSubtasks, 'completeWithSubtasks');
+      }
+
+      const previous = store.todos[index];
+      const completed = body.completed !== undefined ? parseCompleted(body.completed) : previous.completed;
+      // Tags go last since resolving them adds any new ones to the store
+      if (body.tags !== undefined) changes.tags = resolveTagNames(store, body.tags);
+      let todo = withoutNulls({
+        ...withCompletion(bumpVersion(previous), completed),
+        ...changes,
+        updatedAt: new Date().toISOString()
+      });
+      // A cleared due date takes its time with it
+      if (!todo.dueDate) delete todo.dueTime;
+      // Switching auto-completion on applies it to the current checklist right away
+      if (changes.completeWithSubtasks) todo = withSubtasks(todo, sortSubtasks(todo.subtasks));
+      store.todos[index] = scheduleNextOccurrence(previous, todo);
+      await store.flush();
+
+      return { status: 200, data: store.todos[index], message: 'Todo updated successfully' };
+    },
+
+    // POST /todos/reorder - moves ids after afterId (null = top), re-ranking only the moved todos
+    async reorder(body) {
+      const ids = parseIds(body.ids);
+      const afterId = body.afterId ?? null;
+      if (ids.length === 0 || (afterId !== null && (typeof afterId !== 'string' || ids.includes(afterId)))) {
+        throw validationError('Provide the todos to move and a different todo to place them after', 'ids');
+      }
+
+      const todos = store.todos.filter((todo) => !isTrashed(todo));
+      const referencedIds = afterId === null ? ids : [...ids, afterId];
+      const missingIds = referencedIds.filter((id) => !todos.some((todo) => todo.id === id));
+      if (missingIds.length > 0) {
+        throw new HttpError(404, 'Todo not found', 'NOT_FOUND', { ids: missingIds });
+      }
+
+      const reranked = reorderByRank(todos, ids, afterId).map(bumpVersion);
+      const byId = new Map(reranked.map((todo) => [todo.id, todo]));
+      store.todos = store.todos.map((todo) => byId.get(todo.id) ?? todo);
+      await store.flush();
+
+      return { status: 200, data: reranked, message: 'Todos reordered successfully' };
+    },
+
+    // POST /todos/bulk-update - the same changes for every listed todo; fails as a whole if one is missing
+    async bulkUpdate(body) {
+      const ids = parseBulkIds(body.ids);
+      const input = body.changes ?? {};
+      const indexes = findIndexes(ids);
+      const changes = {};
+
+      if (input.priority !== undefined) changes.priority = parsePriority(input.priority);
+      if (input.projectId !== undefined) changes.projectId = parseProjectId(store, input.projectId);
+      if (input.dueDate !== undefined) changes.dueDate = parseDueDate(input.dueDate);
+      const completed = input.completed !== undefined ? parseCompleted(input.completed) : undefined;
+      const removeTags = parseTagList(input.removeTags, 'removeTags');
+      // Last, once the rest of the changes have passed validation
+      const addTags = resolveTagNames(store, parseTagList(input.addTags, 'addTags'));
+
+      const updated = indexes.map((index) => {
+        const previous = store.todos[index];
+        const todo = withoutNulls({
+          ...withCompletion(bumpVersion(previous), completed ?? previous.completed),
+          ...changes,
+          tags: applyTagChanges(previous.tags, addTags, removeTags),
+          updatedAt: new Date().toISOString()
+        });
+        if (!todo.dueDate) delete todo.dueTime;
+        store.todos[index] = scheduleNextOccurrence(previous, todo);
+        return store.todos[index];
+      });
+      await store.flush();
+
+      return { status: 200, data: updated, message: `${updated.length} todo(s) updated successfully` };
+    },
+
+    // POST /todos/bulk-delete - moves every listed todo to the trash; fails as a whole if one is missing
+    async bulkDelete(body) {
+      const indexes = findIndexes(parseBulkIds(body.ids));
+      const deletedAt = new Date().toISOString();
+      indexes.forEach((index) => {
+        store.todos[index] = bumpVersion({ ...store.todos[index], deletedAt });
+      });
+      await store.flush();
+
+      return { status: 200, data: null, message: `${indexes.length} todo(s) moved to trash` };
+    },
+
+    // POST /todos/batch - mixed create/update/delete operations with one result each. Atomic batches
+    // roll everything back (new tags included) when one fails; best-effort batches keep what succeeded.
+    async batch(body) {
+      const operations = parseOperations(body.operations);
+      const mode = parseBatchMode(body.mode);
+      const snapshot = mode === 'atomic' ? store.snapshot() : null;
+      const results = [];
+
+      for (const [index, operation] of operations.entries()) {
+        try {
+          results.push({ ok: true, data: (await runBatchOperation(this, operation)).data });
+        } catch (error) {
+          if (snapshot) {
+            await store.restore(snapshot);
+            const failure = toBatchError(error);
+            throw new HttpError(
+              422,
+              `No changes were applied because operation ${index + 1} failed: ${failure.message}`,
+              'BATCH_FAILED',
+              { results: abortedBatchResults(operations.length, index, failure) }
+            );
+          }
+          results.push({ ok: false, error: toBatchError(error) });
+        }
+      }
+
+      const succeeded = results.filter((result) => result.ok).length;
+      return { status: 200, data: results, message: `${succeeded} of ${results.length} operation(s) succeeded` };
+    },
+
+    // POST /todos/:id/subtasks
+    async addSubtask(id, body) {
+      const index = findIndex(store, id);
+      const todo = store.todos[index];
+      checkVersion(todo, body.version);
+      const subtasks = sortSubtasks(todo.subtasks);
+      subtasks.push({ id: randomUUID(), title: parseSubtaskTitle(body.title), completed: false, order: subtasks.length });
+
+      store.todos[index] = scheduleNextOccurrence(todo, withSubtasks(bumpVersion(todo), subtasks));
+      await store.flush();
+
+      return { status: 201, data: store.todos[index], message: 'Subtask added successfully' };
+    },
+
+    // PUT /todos/:id/subtasks/:subtaskId
+    async updateSubtask(id, subtaskId, body) {
+      const index = findIndex(store, id);
+      const todo = store.todos[index];
+      checkVersion(todo, body.version);
+      const existing = findSubtask(todo, subtaskId);
+      const subtask = {
+        ...existing,
+        title: body.title !== undefined ? parseSubtaskTitle(body.title) : existing.title,
+        completed: body.completed !== undefined ? parseCompleted(body.completed) : existing.completed
+      };
+
+      store.todos[index] = scheduleNextOccurrence(todo, withSubtasks(
+        bumpVersion(todo),
+        sortSubtasks(todo.subtasks).map((candidate) => (candidate.id === subtaskId ? subtask : candidate))
+      ));
+      await store.flush();
+
+      return { status: 200, data: store.todos[index], message: 'Subtask updated successfully' };
+    },
+
+    // POST /todos/:id/subtasks/reorder - listed ids first, unlisted subtasks keep their relative order
+    async reorderSubtasks(id, body) {
+      const index = findIndex(store, id);
+      const todo = store.todos[index];
+      checkVersion(todo, body.version);
+      const ids = parseIds(body.ids);
+      const listed = ids.map((subtaskId) => findSubtask(todo, subtaskId));
+      const rest = sortSubtasks(todo.subtasks).filter((subtask) => !ids.includes(subtask.id));
+
+      store.todos[index] = scheduleNextOccurrence(todo, withSubtasks(bumpVersion(todo), [...listed, ...rest]));
+      await store.flush();
+
+      return { status: 200, data: store.todos[index], message: 'Subtasks reordered successfully' };
+    },
+
+    // DELETE /todos/:id/subtasks/:subtaskId?version=:version
+    async removeSubtask(id, subtaskId, query) {
+      const index = findIndex(store, id);
+      const todo = store.todos[index];
+      checkVersion(todo, parseQueryVersion(query));
+      findSubtask(todo, subtaskId);
+
+      store.todos[index] = scheduleNextOccurrence(todo, withSubtasks(
+        bumpVersion(todo),
+        sortSubtasks(todo.subtasks).filter((subtask) => subtask.id !== subtaskId)
+      ));
+      await store.flush();
+
+      return { status: 200, data: store.todos[index], message: 'Subtask removed successfully' };
+    },
+
+    // DELETE /todos/:id - moves the todo to the trash
+    async remove(id) {
+      const index = findIndex(store, id);
+      store.todos[index] = bumpVersion({ ...store.todos[index], deletedAt: new Date().toISOString() });
+      await store.flush();
+
+      return { status: 200, data: null, message: 'Todo moved to trash' };
+    },
+
+    // GET /trash
+    async listTrash() {
+      await purgeExpired();
+      const todos = store.todos.filter(isTrashed).sort(
+        (a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+      );
+      return { status: 200, data: todos, message: 'Trash fetched successfully' };
+    },
+
+    // POST /trash/restore
+    async restore(body) {
+      const ids = parseIds(body.ids);
+      const missingIds = ids.filter(
+        (id) => !store.todos.some((todo) => todo.id === id && isTrashed(todo))
+      );
+
+      if (missingIds.length > 0) {
+        throw new HttpError(404, 'Todo not found in trash', 'NOT_FOUND', { ids: missingIds });
+      }
+
+      const restored = [];
+      store.todos = store.todos.map((todo) => {
+        if (!ids.includes(todo.id)) return todo;
+        const { deletedAt, ...rest } = todo;
+        const restoredTodo = bumpVersion(rest);
+        restored.push(restoredTodo);
+        return restoredTodo;
+      });
+      await store.flush();
+
+      return { status: 200, data: restored, message: `${restored.length} todo(s) restored successfully` };
+    },
+
+    // DELETE /trash/:id
+    async purge(id) {
+      const index = findIndex(store, id, { trashed: true });
+      store.todos.splice(index, 1);
+      await store.flush();
+
+      return { status: 200, data: null, message: 'Todo deleted permanently' };
+    },
+
+    // DELETE /trash
+    async emptyTrash() {
+      const count = store.todos.filter(isTrashed).length;
+      store.todos = store.todos.filter((todo) => !isTrashed(todo));
+      await store.flush();
+
+      return { status: 200, data: null, message: `${count} todo(s) deleted permanently` };
+    }
+  };
+};
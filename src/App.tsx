@@ -4,18 +4,30 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
+import { FaultInjectionPanel } from "./components/dev/FaultInjectionPanel";
+import { AppLayout } from "./components/layout/AppLayout";
+import { serviceConfig } from "./services/config";
 
 const queryClient = new QueryClient();
 
+// Fault injection only applies to the mock service, so hide it when a real backend is configured
+const showFaultInjection = import.meta.env.DEV && !serviceConfig.apiBaseUrl;
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      {showFaultInjection && <FaultInjectionPanel />}
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route element={<AppLayout />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/projects/:projectId" element={<Index />} />
+            <Route path="/trash" element={<Trash />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,391 @@
+// Ctrl/Cmd+K command palette for jumping to tasks and running commands from the keyboard
+
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { defaultFilter } from "cmdk";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  CalendarClock,
+  CalendarDays,
+  CheckCircle2,
+  Circle,
+  Inbox,
+  Keyboard,
+  List,
+  LucideIcon,
+  Plus,
+  Settings,
+  Trash2,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useOnlineActionsEnabled } from "@/hooks/use-sync-status";
+import { useBatchTodos, useCreateTodo, useRestoreTodos, useTodos, useUpdateTodo } from "@/hooks/use-todos";
+import { useProjects } from "@/hooks/use-projects";
+import { ApiError } from "@/services/todoApi";
+import { Todo, TodoFilter } from "@/types/todo";
+import { FILTER_PARAM, isTrashed, matchesFilter } from "@/lib/todoFilters";
+import { INBOX_PROJECT_ID, PROJECT_ICONS, isInProject, projectPath, todoPath } from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { normalizeSearchText } from "@/lib/search";
+import { getRecencyBoost, getRecentCommands, recordRecentCommand } from "@/lib/recentCommands";
+import { isModKey } from "@/lib/keyboard";
+import { splitBatchResults } from "@/lib/batch";
+import { cn } from "@/lib/utils";
+
+interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  iconClassName?: string;
+  // Extra words the command can be found by
+  keywords?: string[];
+  hint?: string;
+  // Commands that open a sub-page keep the palette open
+  keepOpen?: boolean;
+  disabled?: boolean;
+  run: () => void;
+}
+
+const FILTER_OPTIONS: { filter: TodoFilter; label: string; icon: LucideIcon }[] = [
+  { filter: TodoFilter.ALL, label: "Show all tasks", icon: List },
+  { filter: TodoFilter.ACTIVE, label: "Show active tasks", icon: Circle },
+  { filter: TodoFilter.COMPLETED, label: "Show completed tasks", icon: CheckCircle2 },
+  { filter: TodoFilter.OVERDUE, label: "Show overdue tasks", icon: AlertCircle },
+  { filter: TodoFilter.TODAY, label: "Show tasks due today", icon: CalendarDays },
+  { filter: TodoFilter.UPCOMING, label: "Show upcoming tasks", icon: CalendarClock },
+];
+
+// Recent commands listed while the search is empty
+const RECENT_SHOWN = 5;
+const RECENT_PREFIX = "recent:";
+
+// How long the "Undo" action stays available after clearing completed tasks
+const UNDO_WINDOW_MS = 8000;
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenSettings: () => void;
+  onOpenShortcuts: () => void;
+}
+
+export const CommandPalette = ({ open, onOpenChange, onOpenSettings, onOpenShortcuts }: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const { pathname, search: locationSearch } = useLocation();
+  const { projectId = INBOX_PROJECT_ID } = useParams();
+  const { data: todos = [] } = useTodos();
+  const { data: projects = [] } = useProjects();
+  const createTodo = useCreateTodo();
+  const updateTodo = useUpdateTodo();
+  const batchTodos = useBatchTodos();
+  const restoreTodos = useRestoreTodos();
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const { toast } = useToast();
+
+  const [search, setSearch] = useState("");
+  const [selectedTodoId, setSelectedTodoId] = useState<string>();
+  const [recent, setRecent] = useState<string[]>([]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isModKey(event) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Every open starts on the root page with up-to-date ranking
+  useEffect(() => {
+    if (!open) return;
+    setSearch("");
+    setSelectedTodoId(undefined);
+    setRecent(getRecentCommands());
+  }, [open]);
+
+  // On the trash page commands act on the Inbox
+  const listPath = projectPath(projectId);
+  const liveTodos = todos.filter(todo => !isTrashed(todo));
+  const selectedTodo = liveTodos.find(todo => todo.id === selectedTodoId);
+  const completedTodos = liveTodos.filter(todo =>
+    matchesFilter(todo, TodoFilter.COMPLETED) && isInProject(todo, projectId)
+  );
+  const projectName = (id = INBOX_PROJECT_ID) =>
+    projects.find(project => project.id === id)?.name ?? "Inbox";
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (title: string) => {
+    try {
+      const todo = await createTodo.mutateAsync({
+        title,
+        projectId: projectId === INBOX_PROJECT_ID ? undefined : projectId,
+      });
+      toast({
+        title: "Success",
+        description: "Task created successfully!",
+        variant: "default",
+      });
+      navigate(todoPath(todo));
+    } catch (error) {
+      showError(error, 'Failed to create task. Please try again.');
+    }
+  };
+
+  const handleToggle = async (todo: Todo) => {
+    try {
+      await updateTodo.mutateAsync({ id: todo.id, input: { completed: !todo.completed, version: todo.version } });
+      toast({
+        title: todo.completed ? "Task reopened" : "Task completed",
+        description: `"${todo.title}"`,
+        variant: "default",
+      });
+    } catch (error) {
+      showError(error, 'Failed to update task. Please try again.');
+    }
+  };
+
+  // Best effort: whatever was deleted can be undone even if some deletes failed
+  const handleClearCompleted = async () => {
+    try {
+      const results = await batchTodos.mutateAsync({
+        operations: completedTodos.map(todo => ({ type: "delete", id: todo.id })),
+        mode: "bestEffort",
+      });
+      const { succeeded: ids, failed, firstError } = splitBatchResults(completedTodos.map(todo => todo.id), results);
+      if (ids.length === 0) {
+        showError(null, firstError.message);
+        return;
+      }
+
+      toast({
+        title: failed.length > 0 ? "Some tasks were not deleted" : "Success",
+        description: failed.length > 0
+          ? `${ids.length} of ${completedTodos.length} completed task(s) moved to trash. ${firstError.message}`
+          : `${ids.length} completed task(s) moved to trash.`,
+        variant: failed.length > 0 ? "destructive" : "default",
+        duration: UNDO_WINDOW_MS,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => restoreTodos.mutate(ids, {
+              onError: (error) => showError(error, 'Failed to restore tasks. Please try again.'),
+            })}
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      showError(error, 'Failed to delete completed tasks. Please try again.');
+    }
+  };
+
+  // Keeps the current search when the filter changes on the list being viewed
+  const showFilter = (filter: TodoFilter) => {
+    const params = new URLSearchParams(pathname === listPath ? locationSearch : "");
+    if (filter === TodoFilter.ALL) {
+      params.delete(FILTER_PARAM);
+    } else {
+      params.set(FILTER_PARAM, filter);
+    }
+    const query = params.toString();
+    navigate({ pathname: listPath, search: query ? `?${query}` : "" });
+  };
+
+  const actionCommands: PaletteCommand[] = [
+    ...(completedTodos.length > 0
+      ? [{
+          id: "clear-completed",
+          label: `Clear completed in ${projectName(projectId)}`,
+          icon: Trash2,
+          // Batches can't be queued offline
+          hint: onlineActionsEnabled ? String(completedTodos.length) : "Needs a connection",
+          disabled: !onlineActionsEnabled,
+          run: handleClearCompleted,
+        }]
+      : []),
+    { id: "settings", label: "Open settings", icon: Settings, keywords: ["preferences"], run: onOpenSettings },
+    { id: "shortcuts", label: "Keyboard shortcuts", icon: Keyboard, keywords: ["help", "keys"], run: onOpenShortcuts },
+  ];
+
+  const filterCommands: PaletteCommand[] = FILTER_OPTIONS.map(({ filter, label, icon }) => ({
+    id: `filter:${filter}`,
+    label,
+    icon,
+    keywords: ["filter"],
+    run: () => showFilter(filter),
+  }));
+
+  const navigationCommands: PaletteCommand[] = [
+    { id: "go:inbox", label: "Go to Inbox", icon: Inbox, run: () => navigate("/") },
+    ...projects
+      .filter(project => !project.archived)
+      .map(project => ({
+        id: `go:${project.id}`,
+        label: `Go to ${project.name}`,
+        icon: PROJECT_ICONS[project.icon],
+        iconClassName: TAG_COLOR_CLASSES[project.color].text,
+        keywords: ["project"],
+        run: () => navigate(projectPath(project.id)),
+      })),
+    { id: "go:trash", label: "Go to Trash", icon: Trash2, run: () => navigate("/trash") },
+  ];
+
+  const taskCommands: PaletteCommand[] = liveTodos.map(todo => ({
+    id: `task:${todo.id}`,
+    label: todo.title,
+    icon: todo.completed ? CheckCircle2 : Circle,
+    keywords: [todo.description ?? "", ...todo.tags],
+    hint: projectName(todo.projectId),
+    keepOpen: true,
+    run: () => {
+      setSelectedTodoId(todo.id);
+      setSearch("");
+    },
+  }));
+
+  const allCommands = [...actionCommands, ...filterCommands, ...navigationCommands, ...taskCommands];
+  const recentCommands = recent
+    .map(id => allCommands.find(command => command.id === id))
+    .filter(Boolean)
+    .slice(0, RECENT_SHOWN);
+
+  const handleSelect = (command: PaletteCommand) => {
+    recordRecentCommand(command.id);
+    if (!command.keepOpen) onOpenChange(false);
+    command.run();
+  };
+
+  // Fuzzy, accent-insensitive match on the label and keywords, boosted by how recently it was used
+  const rankCommand = (value: string, query: string, keywords: string[] = []) =>
+    defaultFilter(normalizeSearchText(keywords.join(" ")), normalizeSearchText(query)) *
+    getRecencyBoost(recent, value.replace(RECENT_PREFIX, ""));
+
+  const renderCommand = (command: PaletteCommand, valuePrefix = "") => (
+    <CommandItem
+      key={valuePrefix + command.id}
+      value={valuePrefix + command.id}
+      keywords={[command.label, ...(command.keywords ?? [])]}
+      onSelect={() => handleSelect(command)}
+      disabled={command.disabled}
+    >
+      <command.icon className={cn("mr-2", command.iconClassName)} />
+      <span className="truncate">{command.label}</span>
+      {command.hint && <CommandShortcut>{command.hint}</CommandShortcut>}
+    </CommandItem>
+  );
+
+  const renderTaskPage = (todo: Todo) => (
+    <CommandGroup heading={todo.title}>
+      {renderCommand({
+        id: `task-go:${todo.id}`,
+        label: "Go to task",
+        icon: ArrowRight,
+        hint: projectName(todo.projectId),
+        run: () => navigate(todoPath(todo)),
+      })}
+      {renderCommand({
+        id: `task-toggle:${todo.id}`,
+        label: todo.completed ? "Mark as not done" : "Mark as done",
+        icon: todo.completed ? Circle : CheckCircle2,
+        keywords: ["complete", "toggle"],
+        run: () => handleToggle(todo),
+      })}
+      {renderCommand({
+        id: `task-back:${todo.id}`,
+        label: "Back",
+        icon: ArrowLeft,
+        keepOpen: true,
+        run: () => setSelectedTodoId(undefined),
+      })}
+    </CommandGroup>
+  );
+
+  const title = search.trim();
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      commandProps={{
+        filter: rankCommand,
+        onKeyDown: (event) => {
+          // Backspace on an empty input leaves the task page
+          if (event.key === "Backspace" && !search && selectedTodo) {
+            event.preventDefault();
+            setSelectedTodoId(undefined);
+          }
+        },
+      }}
+    >
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <DialogDescription className="sr-only">Search tasks or run a command</DialogDescription>
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder={selectedTodo ? "What should happen to this task?" : "Search tasks or type a command..."}
+      />
+      <CommandList>
+        {(selectedTodo || !title) && <CommandEmpty>No matching tasks or commands.</CommandEmpty>}
+
+        {selectedTodo ? renderTaskPage(selectedTodo) : (
+          <>
+            {!search && recentCommands.length > 0 && (
+              <>
+                <CommandGroup heading="Recent">
+                  {recentCommands.map(command => renderCommand(command, RECENT_PREFIX))}
+                </CommandGroup>
+                <CommandSeparator />
+              </>
+            )}
+            <CommandGroup heading="Actions">{actionCommands.map(command => renderCommand(command))}</CommandGroup>
+            <CommandGroup heading="Filter">{filterCommands.map(command => renderCommand(command))}</CommandGroup>
+            <CommandGroup heading="Go to">{navigationCommands.map(command => renderCommand(command))}</CommandGroup>
+            <CommandGroup heading="Tasks">{taskCommands.map(command => renderCommand(command))}</CommandGroup>
+            {/* Always offered while typing, after any matches */}
+            {title && (
+              <CommandGroup heading="Create" forceMount>
+                <CommandItem
+                  value="create-task"
+                  forceMount
+                  onSelect={() => {
+                    onOpenChange(false);
+                    handleCreate(title);
+                  }}
+                >
+                  <Plus className="mr-2" />
+                  <span className="truncate">Create task "{title}"</span>
+                  <CommandShortcut>{projectName(projectId)}</CommandShortcut>
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
@@ -0,0 +1,261 @@
+// Development panel for tuning the mock API's simulated latency and failures
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Bug, Plus, RotateCcw, X } from "lucide-react";
+import { useFaultInjection } from "@/hooks/use-fault-injection";
+import { API_OPERATIONS, FaultKind, faultInjector } from "@/services/faultInjection";
+import { ApiOperation } from "@/types/todo";
+
+const ANY_OPERATION = "any";
+
+// Empty inputs map to null so optional settings can be switched off
+const parseOptionalNumber = (value: string) => {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const FaultInjectionPanel = () => {
+  const config = useFaultInjection();
+  const [operation, setOperation] = useState<ApiOperation | typeof ANY_OPERATION>(ANY_OPERATION);
+  const [targetId, setTargetId] = useState("");
+  const [kind, setKind] = useState<FaultKind>("error");
+  const [times, setTimes] = useState("1");
+
+  const handleAddForcedFailure = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const count = parseOptionalNumber(times);
+    faultInjector.forceFailure({
+      kind,
+      operation: operation === ANY_OPERATION ? undefined : operation,
+      targetId: targetId.trim() || undefined,
+      times: count !== null && count > 0 ? Math.floor(count) : undefined,
+    });
+    setTargetId("");
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          size="icon"
+          variant="outline"
+          className="fixed bottom-4 left-4 z-40 h-10 w-10 rounded-full shadow-md"
+          aria-label="Open fault injection panel"
+        >
+          <Bug className="h-5 w-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Fault injection</SheetTitle>
+          <SheetDescription>
+            Control the mock API's latency and failures to reproduce error states on demand.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="fault-enabled">Simulate network conditions</Label>
+            <Switch
+              id="fault-enabled"
+              checked={config.enabled}
+              onCheckedChange={(enabled) => faultInjector.configure({ enabled })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Latency (ms)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                aria-label="Minimum latency"
+                value={config.latency.min}
+                onChange={(e) =>
+                  faultInjector.configure({
+                    latency: { ...config.latency, min: parseOptionalNumber(e.target.value) ?? 0 },
+                  })
+                }
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                aria-label="Maximum latency"
+                value={config.latency.max}
+                onChange={(e) =>
+                  faultInjector.configure({
+                    latency: { ...config.latency, max: parseOptionalNumber(e.target.value) ?? 0 },
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fault-timeout">Timeout (ms)</Label>
+              <Input
+                id="fault-timeout"
+                type="number"
+                min={0}
+                placeholder="None"
+                value={config.timeoutMs ?? ""}
+                onChange={(e) => faultInjector.configure({ timeoutMs: parseOptionalNumber(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fault-seed">Seed</Label>
+              <Input
+                id="fault-seed"
+                type="number"
+                placeholder="Random"
+                value={config.seed ?? ""}
+                onChange={(e) => faultInjector.configure({ seed: parseOptionalNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <Label>Error rate per operation</Label>
+            {API_OPERATIONS.map((op) => (
+              <div key={op} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="capitalize">{op}</span>
+                  <span className="text-muted-foreground">
+                    {Math.round(config.errorRates[op] * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={[Math.round(config.errorRates[op] * 100)]}
+                  onValueChange={([value]) =>
+                    faultInjector.configure({
+                      errorRates: { ...config.errorRates, [op]: value / 100 },
+                    })
+                  }
+                  aria-label={`${op} error rate`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          <form onSubmit={handleAddForcedFailure} className="space-y-3">
+            <Label>Forced failures</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={operation} onValueChange={(value) => setOperation(value as ApiOperation)}>
+                <SelectTrigger aria-label="Operation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_OPERATION}>Any operation</SelectItem>
+                  {API_OPERATIONS.map((op) => (
+                    <SelectItem key={op} value={op} className="capitalize">
+                      {op}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={kind} onValueChange={(value) => setKind(value as FaultKind)}>
+                <SelectTrigger aria-label="Failure kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="error">Error</SelectItem>
+                  <SelectItem value="timeout">Timeout</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Todo id (any)"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+              />
+              <Input
+                type="number"
+                min={1}
+                placeholder="Times (always)"
+                value={times}
+                onChange={(e) => setTimes(e.target.value)}
+              />
+            </div>
+            <Button type="submit" size="sm" variant="outline" className="w-full">
+              <Plus className="mr-2 h-4 w-4" />
+              Add forced failure
+            </Button>
+
+            {config.forcedFailures.length > 0 && (
+              <ul className="space-y-2">
+                {config.forcedFailures.map((failure) => (
+                  <li
+                    key={failure.id}
+                    className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+                  >
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge variant={failure.kind === "error" ? "destructive" : "secondary"}>
+                        {failure.kind}
+                      </Badge>
+                      <span>{failure.operation ?? "any operation"}</span>
+                      {failure.targetId && (
+                        <span className="text-muted-foreground">#{failure.targetId}</span>
+                      )}
+                      <span className="text-muted-foreground">
+                        {failure.times !== undefined ? `×${failure.times}` : "always"}
+                      </span>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      onClick={() => faultInjector.clearForcedFailure(failure.id)}
+                      aria-label="Remove forced failure"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </form>
+
+          <Separator />
+
+          <Button variant="outline" className="w-full" onClick={() => faultInjector.reset()}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,46 @@
+// Page shell: project sidebar next to the routed page, plus the app-wide dialogs
+
+import { useState } from "react";
+import { Outlet } from "react-router-dom";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { ProjectSidebar } from "@/components/projects/ProjectSidebar";
+import { CommandPalette } from "@/components/command/CommandPalette";
+import { SettingsDialog } from "@/components/settings/SettingsDialog";
+import { ShortcutCheatSheet } from "@/components/shortcuts/ShortcutCheatSheet";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { useTodoSync } from "@/hooks/use-todo-sync";
+import { useRetryToasts } from "@/hooks/use-retry-toasts";
+
+export const AppLayout = () => {
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+
+  useShortcuts({ showShortcuts: () => setIsCheatSheetOpen(true) });
+  useTodoSync();
+  useRetryToasts();
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar
+        onOpenCommandPalette={() => setIsPaletteOpen(true)}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+      />
+      <div className="flex-1 min-w-0">
+        <Outlet />
+      </div>
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenShortcuts={() => setIsCheatSheetOpen(true)}
+      />
+      <ShortcutCheatSheet
+        open={isCheatSheetOpen}
+        onOpenChange={setIsCheatSheetOpen}
+        onCustomize={() => setIsSettingsOpen(true)}
+      />
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+    </SidebarProvider>
+  );
+};
@@ -0,0 +1,138 @@
+// Create/edit dialog for a project's name, color and icon
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ColorPicker } from "@/components/todo/ColorPicker";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateProject, useUpdateProject } from "@/hooks/use-projects";
+import { ApiError } from "@/services/todoApi";
+import { Project, ProjectIcon, TagColor } from "@/types/todo";
+import {
+  DEFAULT_PROJECT_COLOR,
+  DEFAULT_PROJECT_ICON,
+  PROJECT_ICONS,
+  PROJECT_ICON_NAMES,
+  PROJECT_NAME_MAX_LENGTH,
+} from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface ProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this project; creates a new one when omitted
+  project?: Project;
+  onCreated?: (project: Project) => void;
+}
+
+export const ProjectDialog = ({ open, onOpenChange, project, onCreated }: ProjectDialogProps) => {
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<TagColor>(DEFAULT_PROJECT_COLOR);
+  const [icon, setIcon] = useState<ProjectIcon>(DEFAULT_PROJECT_ICON);
+  const isSaving = createProject.isPending || updateProject.isPending;
+
+  // Start from the edited project (or blank) every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(project?.name ?? "");
+    setColor(project?.color ?? DEFAULT_PROJECT_COLOR);
+    setIcon(project?.icon ?? DEFAULT_PROJECT_ICON);
+  }, [open, project]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      if (project) {
+        await updateProject.mutateAsync({ id: project.id, input: { name: name.trim(), color, icon } });
+      } else {
+        const created = await createProject.mutateAsync({ name: name.trim(), color, icon });
+        onCreated?.(created);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof ApiError ? error.message : 'Failed to save project. Please try again.',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+            <DialogDescription>
+              {project ? "Change how this project appears in the sidebar." : "Group related tasks into their own list."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <div className="flex items-center gap-2">
+              <ColorPicker value={color} onChange={setColor} disabled={isSaving} />
+              <Input
+                id="project-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={PROJECT_NAME_MAX_LENGTH}
+                disabled={isSaving}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROJECT_ICON_NAMES.map((name) => {
+                const Icon = PROJECT_ICONS[name];
+                return (
+                  <Button
+                    key={name}
+                    type="button"
+                    variant={icon === name ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setIcon(name)}
+                    className="h-9 w-9 p-0"
+                    aria-label={name}
+                    aria-pressed={icon === name}
+                  >
+                    <Icon className={cn("h-4 w-4", icon !== name && TAG_COLOR_CLASSES[color].text)} />
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {project ? "Save" : "Create project"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
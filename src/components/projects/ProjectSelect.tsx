@@ -0,0 +1,59 @@
+// Project dropdown for moving a todo between the Inbox and projects
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Inbox } from "lucide-react";
+import { useProjects } from "@/hooks/use-projects";
+import { INBOX_PROJECT_ID, PROJECT_ICONS } from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface ProjectSelectProps {
+  // undefined is the Inbox
+  value?: string;
+  onChange: (projectId: string | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const ProjectSelect = ({ value, onChange, disabled, className }: ProjectSelectProps) => {
+  const { data: projects = [] } = useProjects();
+  // Archived projects stay selectable only for todos already in them
+  const options = projects.filter(project => !project.archived || project.id === value);
+
+  return (
+    <Select
+      value={value ?? INBOX_PROJECT_ID}
+      onValueChange={(projectId) => onChange(projectId === INBOX_PROJECT_ID ? undefined : projectId)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("w-44", className)} aria-label="Project">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INBOX_PROJECT_ID}>
+          <span className="flex items-center gap-2">
+            <Inbox className="h-3.5 w-3.5 text-primary" />
+            Inbox
+          </span>
+        </SelectItem>
+        {options.map((project) => {
+          const Icon = PROJECT_ICONS[project.icon];
+          return (
+            <SelectItem key={project.id} value={project.id}>
+              <span className="flex items-center gap-2">
+                <Icon className={cn("h-3.5 w-3.5", TAG_COLOR_CLASSES[project.color].text)} />
+                {project.name}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+};
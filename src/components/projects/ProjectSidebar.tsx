@@ -0,0 +1,313 @@
+// Sidebar navigation between the Inbox, projects and the trash
+
+import { useState } from "react";
+import { NavLink, useLocation, useNavigate, useParams } from "react-router-dom";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Archive,
+  ArchiveRestore,
+  CheckSquare,
+  ChevronRight,
+  Inbox,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Search,
+  Settings,
+  Trash2,
+} from "lucide-react";
+import { ProjectDialog } from "./ProjectDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTodos } from "@/hooks/use-todos";
+import { useDeleteProject, useProjects, useUpdateProject } from "@/hooks/use-projects";
+import { ONLINE_ONLY_HINT, useOnlineActionsEnabled } from "@/hooks/use-sync-status";
+import { ApiError } from "@/services/todoApi";
+import { Project, ProjectWithCounts } from "@/types/todo";
+import { INBOX_PROJECT_ID, PROJECT_ICONS, isInProject, projectPath } from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { modKeyLabel } from "@/lib/keyboard";
+
+interface ProjectSidebarProps {
+  onOpenCommandPalette: () => void;
+  onOpenSettings: () => void;
+}
+
+export const ProjectSidebar = ({ onOpenCommandPalette, onOpenSettings }: ProjectSidebarProps) => {
+  const { data: projects = [] } = useProjects();
+  const { data: todos = [] } = useTodos();
+  const updateProject = useUpdateProject();
+  const deleteProject = useDeleteProject();
+  // Project changes can't be queued offline
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const { projectId: activeProjectId } = useParams();
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [dialogProject, setDialogProject] = useState<Project>();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [projectToDelete, setProjectToDelete] = useState<ProjectWithCounts>();
+
+  const inboxCount = todos.filter(todo => !todo.completed && isInProject(todo, INBOX_PROJECT_ID)).length;
+  const activeProjects = projects.filter(project => !project.archived);
+  const archivedProjects = projects.filter(project => project.archived);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const openDialog = (project?: Project) => {
+    setDialogProject(project);
+    setIsDialogOpen(true);
+  };
+
+  const handleArchive = async (project: Project, archived: boolean) => {
+    try {
+      await updateProject.mutateAsync({ id: project.id, input: { archived } });
+      if (archived && project.id === activeProjectId) navigate("/");
+      toast({
+        title: archived ? "Project archived" : "Project restored",
+        description: `"${project.name}" ${archived ? "was archived" : "is back in your projects"}.`,
+        variant: "default",
+      });
+    } catch (error) {
+      showError(error, 'Failed to update project. Please try again.');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!projectToDelete) return;
+
+    try {
+      await deleteProject.mutateAsync(projectToDelete.id);
+      if (projectToDelete.id === activeProjectId) navigate("/");
+      toast({
+        title: "Project deleted",
+        description: `Tasks from "${projectToDelete.name}" were moved to the Inbox.`,
+        variant: "default",
+      });
+    } catch (error) {
+      showError(error, 'Failed to delete project. Please try again.');
+    } finally {
+      setProjectToDelete(undefined);
+    }
+  };
+
+  const renderProject = (project: ProjectWithCounts) => {
+    const Icon = PROJECT_ICONS[project.icon];
+
+    return (
+      <SidebarMenuItem key={project.id}>
+        <SidebarMenuButton asChild isActive={project.id === activeProjectId} tooltip={project.name}>
+          <NavLink to={projectPath(project.id)}>
+            <Icon className={TAG_COLOR_CLASSES[project.color].text} />
+            <span>{project.name}</span>
+          </NavLink>
+        </SidebarMenuButton>
+        {!project.archived && project.activeCount > 0 && (
+          <SidebarMenuBadge className="peer-hover/menu-button:opacity-0">{project.activeCount}</SidebarMenuBadge>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover aria-label={`${project.name} actions`}>
+              <MoreHorizontal />
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            {!onlineActionsEnabled && (
+              <DropdownMenuLabel className="max-w-56 text-xs font-normal text-muted-foreground">
+                {ONLINE_ONLY_HINT}
+              </DropdownMenuLabel>
+            )}
+            <DropdownMenuItem onClick={() => openDialog(project)} disabled={!onlineActionsEnabled}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => handleArchive(project, !project.archived)}
+              disabled={!onlineActionsEnabled}
+            >
+              {project.archived ? (
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+              ) : (
+                <Archive className="h-4 w-4 mr-2" />
+              )}
+              {project.archived ? "Unarchive" : "Archive"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setProjectToDelete(project)}
+              disabled={!onlineActionsEnabled}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    );
+  };
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1.5">
+          <div className="inline-flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-lg bg-gradient-primary">
+            <CheckSquare className="h-4 w-4 text-white" />
+          </div>
+          <span className="font-semibold text-sidebar-foreground group-data-[collapsible=icon]:hidden">
+            Modern To-Do
+          </span>
+        </div>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={onOpenCommandPalette} tooltip="Command palette">
+              <Search />
+              <span>Search & commands</span>
+              <kbd className="ml-auto rounded border bg-sidebar-accent px-1.5 text-[10px] text-muted-foreground">
+                {modKeyLabel()} K
+              </kbd>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === "/"} tooltip="Inbox">
+                  <NavLink to="/" end>
+                    <Inbox />
+                    <span>Inbox</span>
+                  </NavLink>
+                </SidebarMenuButton>
+                {inboxCount > 0 && <SidebarMenuBadge>{inboxCount}</SidebarMenuBadge>}
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={pathname === "/trash"} tooltip="Trash">
+                  <NavLink to="/trash">
+                    <Trash2 />
+                    <span>Trash</span>
+                  </NavLink>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction
+            onClick={() => openDialog()}
+            disabled={!onlineActionsEnabled}
+            title={onlineActionsEnabled ? "New project" : ONLINE_ONLY_HINT}
+          >
+            <Plus />
+            <span className="sr-only">New project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {activeProjects.map(renderProject)}
+              {activeProjects.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground group-data-[collapsible=icon]:hidden">
+                  No projects yet
+                </p>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        {archivedProjects.length > 0 && (
+          <Collapsible className="group/archived">
+            <SidebarGroup>
+              <SidebarGroupLabel asChild>
+                <CollapsibleTrigger>
+                  Archived ({archivedProjects.length})
+                  <ChevronRight className="ml-auto transition-transform group-data-[state=open]/archived:rotate-90" />
+                </CollapsibleTrigger>
+              </SidebarGroupLabel>
+              <CollapsibleContent>
+                <SidebarGroupContent>
+                  <SidebarMenu>{archivedProjects.map(renderProject)}</SidebarMenu>
+                </SidebarGroupContent>
+              </CollapsibleContent>
+            </SidebarGroup>
+          </Collapsible>
+        )}
+      </SidebarContent>
+
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={onOpenSettings} tooltip="Settings">
+              <Settings />
+              <span>Settings</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+
+      <ProjectDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        project={dialogProject}
+        onCreated={(project) => navigate(projectPath(project.id))}
+      />
+
+      <AlertDialog open={Boolean(projectToDelete)} onOpenChange={(open) => !open && setProjectToDelete(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{projectToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project is removed and its tasks move to the Inbox. Archive it instead to keep it around.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete project</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,74 @@
+// App settings: preferences stored in this browser
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { History } from "lucide-react";
+import { ShortcutKey } from "@/components/shortcuts/ShortcutKey";
+import { ShortcutSettings } from "@/components/shortcuts/ShortcutSettings";
+import { clearRecentCommands, getRecentCommands } from "@/lib/recentCommands";
+import { modKeyLabel } from "@/lib/keyboard";
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SettingsDialog = ({ open, onOpenChange }: SettingsDialogProps) => {
+  const [recentCount, setRecentCount] = useState(0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      {/* Re-read on every open; the palette records commands while this is closed */}
+      <DialogContent
+        className="sm:max-w-lg"
+        onOpenAutoFocus={() => setRecentCount(getRecentCommands().length)}
+      >
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Preferences are saved in this browser.</DialogDescription>
+        </DialogHeader>
+
+        <Separator />
+
+        <section className="space-y-3">
+          <div>
+            <h3 className="text-sm font-medium text-card-foreground">Command palette</h3>
+            <p className="text-sm text-muted-foreground">
+              Press <ShortcutKey>{modKeyLabel()} K</ShortcutKey> anywhere to
+              search tasks and run commands. Commands you use often are ranked first.
+            </p>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-muted-foreground">
+              {recentCount === 0 ? "No recent commands" : `${recentCount} recent command(s) remembered`}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                clearRecentCommands();
+                setRecentCount(0);
+              }}
+              disabled={recentCount === 0}
+            >
+              <History className="h-4 w-4 mr-2" />
+              Clear history
+            </Button>
+          </div>
+        </section>
+
+        <Separator />
+
+        <ShortcutSettings />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,75 @@
+// Dialog listing every keyboard shortcut with its current key
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Settings } from "lucide-react";
+import { ShortcutKey } from "./ShortcutKey";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import { SHORTCUT_DEFINITIONS, formatShortcutKey } from "@/lib/shortcuts";
+import { modKeyLabel } from "@/lib/keyboard";
+
+const GROUPS = ["Tasks", "Navigation", "General"] as const;
+
+interface ShortcutCheatSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCustomize: () => void;
+}
+
+export const ShortcutCheatSheet = ({ open, onOpenChange, onCustomize }: ShortcutCheatSheetProps) => {
+  const bindings = useShortcutBindings();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Shortcuts are paused while you type in a field.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          {GROUPS.map((group) => (
+            <section key={group} className="space-y-2">
+              <h3 className="text-sm font-medium text-card-foreground">{group}</h3>
+              <dl className="space-y-1.5">
+                {SHORTCUT_DEFINITIONS.filter((definition) => definition.group === group).map(({ action, label }) => (
+                  <div key={action} className="flex items-center justify-between gap-4 text-sm">
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd><ShortcutKey>{formatShortcutKey(bindings[action])}</ShortcutKey></dd>
+                  </div>
+                ))}
+                {group === "General" && (
+                  <div className="flex items-center justify-between gap-4 text-sm">
+                    <dt className="text-muted-foreground">Command palette</dt>
+                    <dd><ShortcutKey>{modKeyLabel()} K</ShortcutKey></dd>
+                  </div>
+                )}
+              </dl>
+            </section>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onOpenChange(false);
+              onCustomize();
+            }}
+          >
+            <Settings className="h-4 w-4 mr-2" />
+            Customize
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
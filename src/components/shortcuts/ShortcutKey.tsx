@@ -0,0 +1,19 @@
+// Keyboard key cap used in shortcut hints
+
+import { cn } from "@/lib/utils";
+
+interface ShortcutKeyProps {
+  children: React.ReactNode;
+  className?: string;
+}
+
+export const ShortcutKey = ({ children, className }: ShortcutKeyProps) => (
+  <kbd
+    className={cn(
+      "inline-flex min-w-6 items-center justify-center rounded border bg-muted px-1.5 font-mono text-xs text-muted-foreground",
+      className
+    )}
+  >
+    {children}
+  </kbd>
+);
@@ -0,0 +1,96 @@
+// Settings section for remapping keyboard shortcuts
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { ShortcutKey } from "./ShortcutKey";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import {
+  RESERVED_KEYS,
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+  formatShortcutKey,
+  shortcutStore,
+} from "@/lib/shortcuts";
+
+export const ShortcutSettings = () => {
+  const bindings = useShortcutBindings();
+  const [recording, setRecording] = useState<ShortcutAction>();
+  const [error, setError] = useState<string>();
+
+  const labelOf = (action: ShortcutAction) =>
+    SHORTCUT_DEFINITIONS.find((definition) => definition.action === action)?.label;
+
+  // The next key press while recording becomes the binding; Escape cancels
+  const handleKeyDown = (action: ShortcutAction, event: React.KeyboardEvent) => {
+    if (recording !== action) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.key === "Escape") {
+      setRecording(undefined);
+      return;
+    }
+    if (RESERVED_KEYS.includes(event.key) || event.ctrlKey || event.metaKey || event.altKey) {
+      setError("Use a single key without Ctrl, Alt or ⌘.");
+      return;
+    }
+
+    const current = shortcutStore.findAction(event.key);
+    if (current && current !== action) {
+      setError(`"${formatShortcutKey(event.key)}" is already used for ${labelOf(current)?.toLowerCase()}.`);
+      return;
+    }
+
+    shortcutStore.setBinding(action, event.key);
+    setRecording(undefined);
+    setError(undefined);
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-card-foreground">Keyboard shortcuts</h3>
+          <p className="text-sm text-muted-foreground">Click a key, then press the new one.</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            shortcutStore.reset();
+            setRecording(undefined);
+            setError(undefined);
+          }}
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset
+        </Button>
+      </div>
+
+      <div className="max-h-64 space-y-1 overflow-y-auto pr-1">
+        {SHORTCUT_DEFINITIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <Button
+              variant={recording === action ? "default" : "outline"}
+              size="sm"
+              className="h-7 min-w-16"
+              onClick={() => {
+                setRecording(recording === action ? undefined : action);
+                setError(undefined);
+              }}
+              onKeyDown={(event) => handleKeyDown(action, event)}
+              onBlur={() => recording === action && setRecording(undefined)}
+              aria-label={`Change shortcut for ${label}`}
+            >
+              {recording === action ? "Press a key…" : <ShortcutKey className="border-0 bg-transparent">{formatShortcutKey(bindings[action])}</ShortcutKey>}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </section>
+  );
+};
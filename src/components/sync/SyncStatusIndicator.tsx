@@ -0,0 +1,54 @@
+// Header badge showing whether changes have reached the server, with a manual "sync now"
+
+import { format } from "date-fns";
+import { AlertCircle, CloudOff, CloudUpload, Cloud, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { offlineTodoApi } from "@/services/todoApi";
+import { cn } from "@/lib/utils";
+
+const pluralizeChanges = (count: number) => `${count} change${count === 1 ? "" : "s"}`;
+
+export const SyncStatusIndicator = ({ className }: { className?: string }) => {
+  const status = useSyncStatus();
+  if (!status) return null;
+
+  const { isOnline, isSyncing, pendingCount, lastSyncedAt, lastError } = status;
+
+  const [Icon, label] = isSyncing
+    ? [RefreshCw, `Syncing ${pluralizeChanges(pendingCount)}…`]
+    : !isOnline
+      ? [CloudOff, pendingCount > 0 ? `Offline · ${pluralizeChanges(pendingCount)} pending` : "Offline"]
+      : pendingCount > 0
+        ? [CloudUpload, `${pluralizeChanges(pendingCount)} pending`]
+        : [Cloud, lastSyncedAt ? `Synced ${format(lastSyncedAt, "p")}` : "Synced"];
+
+  const details = [
+    lastSyncedAt ? `Last synced ${format(lastSyncedAt, "PPp")}` : "Not synced yet",
+    lastError,
+    pendingCount > 0 && !isSyncing ? "Click to retry now" : null,
+  ].filter(Boolean).join("\n");
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => void offlineTodoApi?.sync()}
+      disabled={isSyncing || pendingCount === 0}
+      title={details}
+      aria-label={`${label}. ${details}`}
+      className={cn(
+        "gap-1.5 text-xs text-muted-foreground disabled:opacity-100",
+        !isOnline && "text-warning",
+        className,
+      )}
+    >
+      {lastError ? (
+        <AlertCircle className="h-4 w-4 text-destructive" />
+      ) : (
+        <Icon className={cn("h-4 w-4", isSyncing && "animate-spin")} />
+      )}
+      <span className="hidden sm:inline">{label}</span>
+    </Button>
+  );
+};
@@ -1,13 +1,18 @@
 // Form component for adding new todos
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { Plus, Sparkles } from "lucide-react";
-import { CreateTodoInput } from "@/types/todo";
+import { PrioritySelect } from "./PrioritySelect";
+import { DueDatePicker } from "./DueDatePicker";
+import { TagInput } from "./TagInput";
+import { RecurrencePicker } from "./RecurrencePicker";
+import { CreateTodoInput, RecurrenceRule, TodoPriority } from "@/types/todo";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 
 interface AddToDoFormProps {
   onSubmit: (todo: CreateTodoInput) => Promise<void>;
@@ -17,7 +22,20 @@ interface AddToDoFormProps {
 export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [priority, setPriority] = useState<TodoPriority>(TodoPriority.NONE);
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [dueTime, setDueTime] = useState<string | undefined>();
+  const [tags, setTags] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>();
   const [isExpanded, setIsExpanded] = useState(false);
+  const titleRef = useRef<HTMLInputElement>(null);
+
+  useShortcuts({
+    newTask: () => {
+      titleRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+      titleRef.current?.focus({ preventScroll: true });
+    },
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,12 +45,22 @@ export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
     try {
       await onSubmit({ 
         title: title.trim(), 
-        description: description.trim() || undefined 
+        description: description.trim() || undefined,
+        priority,
+        dueDate,
+        dueTime,
+        tags,
+        recurrence
       });
       
       // Reset form
       setTitle("");
       setDescription("");
+      setPriority(TodoPriority.NONE);
+      setDueDate(undefined);
+      setDueTime(undefined);
+      setTags([]);
+      setRecurrence(undefined);
       setIsExpanded(false);
     } catch (error) {
       // Error handling is done in parent component
@@ -59,6 +87,7 @@ export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Input
+              ref={titleRef}
               type="text"
               placeholder="What needs to be done?"
               value={title}
@@ -70,7 +99,7 @@ export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
             />
             
             {isExpanded && (
-              <div className="animate-slide-in">
+              <div className="animate-slide-in space-y-2">
                 <Textarea
                   placeholder="Add a description (optional)"
                   value={description}
@@ -80,6 +109,36 @@ export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
                   rows={3}
                   maxLength={500}
                 />
+                <div className="flex flex-wrap gap-2">
+                  <PrioritySelect
+                    value={priority}
+                    onChange={setPriority}
+                    disabled={isLoading}
+                    className="border-primary/20"
+                  />
+                  <DueDatePicker
+                    dueDate={dueDate}
+                    dueTime={dueTime}
+                    onChange={(date, time) => {
+                      setDueDate(date);
+                      setDueTime(time);
+                    }}
+                    disabled={isLoading}
+                    className="border-primary/20"
+                  />
+                  <RecurrencePicker
+                    value={recurrence}
+                    onChange={setRecurrence}
+                    anchor={dueDate}
+                    disabled={isLoading}
+                    className="border-primary/20"
+                  />
+                </div>
+                <TagInput
+                  value={tags}
+                  onChange={setTags}
+                  disabled={isLoading}
+                />
               </div>
             )}
           </div>
@@ -110,6 +169,12 @@ export const AddToDoForm = ({ onSubmit, isLoading }: AddToDoFormProps) => {
                 onClick={() => {
                   setIsExpanded(false);
                   setDescription("");
+                  setPriority(TodoPriority.NONE);
+                  setDueDate(undefined);
+                  setDueTime(undefined);
+                  setTags([]);
+                  setRecurrence(undefined);
+      setRecurrence(undefined);
                 }}
                 disabled={isLoading}
                 className="border-primary/20 text-muted-foreground hover:text-card-foreground"
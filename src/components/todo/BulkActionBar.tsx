@@ -0,0 +1,199 @@
+// Toolbar for acting on every selected todo at once
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  CalendarClock,
+  CheckCircle2,
+  Circle,
+  Flag,
+  FolderInput,
+  Inbox,
+  Tag as TagIcon,
+  Trash2,
+  X,
+} from "lucide-react";
+import { BulkUpdateTodosInput } from "@/types/todo";
+import { useProjects } from "@/hooks/use-projects";
+import { useTags } from "@/hooks/use-tags";
+import { PRIORITIES, PRIORITY_META } from "@/lib/priority";
+import { PROJECT_ICONS } from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  // Selects every visible todo, or clears the selection
+  onSelectAll: (selected: boolean) => void;
+  onUpdate: (input: BulkUpdateTodosInput) => void;
+  onDelete: () => void;
+  onExit: () => void;
+  isPending: boolean;
+}
+
+export const BulkActionBar = ({
+  selectedCount,
+  visibleCount,
+  onSelectAll,
+  onUpdate,
+  onDelete,
+  onExit,
+  isPending,
+}: BulkActionBarProps) => {
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const { data: projects = [] } = useProjects();
+  const { data: tags = [] } = useTags();
+  const activeProjects = projects.filter((project) => !project.archived);
+  const allSelected = visibleCount > 0 && selectedCount === visibleCount;
+  const disabled = selectedCount === 0 || isPending;
+
+  const setDueDate = (dueDate: Date | null) => {
+    onUpdate({ dueDate });
+    setIsDatePickerOpen(false);
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="sticky top-20 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-card/95 p-2 shadow-sm backdrop-blur-sm"
+    >
+      <label className="flex items-center gap-2 px-2 text-sm font-medium">
+        <Checkbox
+          checked={allSelected ? true : selectedCount > 0 ? "indeterminate" : false}
+          onCheckedChange={() => onSelectAll(!allSelected)}
+          disabled={visibleCount === 0}
+          aria-label={allSelected ? "Clear selection" : "Select all visible tasks"}
+        />
+        {selectedCount} selected
+      </label>
+
+      <div className="flex flex-1 flex-wrap items-center gap-1">
+        <Button variant="ghost" size="sm" disabled={disabled} onClick={() => onUpdate({ completed: true })}>
+          <CheckCircle2 className="mr-1 h-4 w-4" />
+          Complete
+        </Button>
+        <Button variant="ghost" size="sm" disabled={disabled} onClick={() => onUpdate({ completed: false })}>
+          <Circle className="mr-1 h-4 w-4" />
+          Reopen
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={disabled}>
+              <Flag className="mr-1 h-4 w-4" />
+              Priority
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {PRIORITIES.map((priority) => (
+              <DropdownMenuItem key={priority} onSelect={() => onUpdate({ priority })}>
+                <Flag className={cn("mr-2 h-3.5 w-3.5", PRIORITY_META[priority].textClassName)} />
+                {PRIORITY_META[priority].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={disabled}>
+              <FolderInput className="mr-1 h-4 w-4" />
+              Move
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onSelect={() => onUpdate({ projectId: null })}>
+              <Inbox className="mr-2 h-3.5 w-3.5 text-primary" />
+              Inbox
+            </DropdownMenuItem>
+            {activeProjects.map((project) => {
+              const Icon = PROJECT_ICONS[project.icon];
+              return (
+                <DropdownMenuItem key={project.id} onSelect={() => onUpdate({ projectId: project.id })}>
+                  <Icon className={cn("mr-2 h-3.5 w-3.5", TAG_COLOR_CLASSES[project.color].text)} />
+                  {project.name}
+                </DropdownMenuItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={disabled || tags.length === 0}>
+              <TagIcon className="mr-1 h-4 w-4" />
+              Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Tags</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {(["addTags", "removeTags"] as const).map((change) => (
+              <DropdownMenuSub key={change}>
+                <DropdownMenuSubTrigger>{change === "addTags" ? "Add tag" : "Remove tag"}</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {tags.map((tag) => (
+                    <DropdownMenuItem key={tag.id} onSelect={() => onUpdate({ [change]: [tag.name] })}>
+                      <span className={cn("mr-2 h-2.5 w-2.5 rounded-full", TAG_COLOR_CLASSES[tag.color].swatch)} />
+                      {tag.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={disabled}>
+              <CalendarClock className="mr-1 h-4 w-4" />
+              Due date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar mode="single" onSelect={(date) => date && setDueDate(date)} initialFocus />
+            <div className="flex justify-end border-t p-3">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setDueDate(null)}>
+                <X className="mr-1 h-4 w-4" />
+                Clear due date
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          onClick={onDelete}
+          className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+
+      <Button variant="ghost" size="sm" onClick={onExit}>
+        <X className="mr-1 h-4 w-4" />
+        Done
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+// Swatch picker for the shared tag/project color palette
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TagColor } from "@/types/todo";
+import { TAG_COLORS, TAG_COLOR_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface ColorPickerProps {
+  value: TagColor;
+  onChange: (color: TagColor) => void;
+  disabled?: boolean;
+}
+
+export const ColorPicker = ({ value, onChange, disabled }: ColorPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" disabled={disabled} aria-label="Tag color">
+          <span className={cn("h-3.5 w-3.5 rounded-full", TAG_COLOR_CLASSES[value].swatch)} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="flex w-auto flex-wrap gap-2 p-2" align="start">
+        {TAG_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => {
+              onChange(color);
+              setIsOpen(false);
+            }}
+            className={cn(
+              "h-6 w-6 rounded-full ring-offset-background",
+              TAG_COLOR_CLASSES[color].swatch,
+              color === value && "ring-2 ring-ring ring-offset-2"
+            )}
+            aria-label={color}
+          />
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,121 @@
+// Side-by-side merge of an edit that collided with a newer version of the todo
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useProjects } from "@/hooks/use-projects";
+import { Project, RecurrenceRule, TodoPriority, UpdateTodoInput } from "@/types/todo";
+import {
+  CONFLICT_FIELD_LABELS,
+  ConflictChoice,
+  ConflictField,
+  ConflictRow,
+  defaultConflictChoices,
+  getConflictRows,
+  mergeConflict,
+  TodoConflict,
+} from "@/lib/conflicts";
+import { PRIORITY_META } from "@/lib/priority";
+import { describeRecurrence } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+
+interface ConflictDialogProps {
+  conflict: TodoConflict;
+  // null keeps the latest version as it is
+  onResolve: (input: UpdateTodoInput | null) => void;
+}
+
+const formatValue = (field: ConflictField, value: unknown, projects: Project[]): string => {
+  if (value === undefined || value === null || value === "") {
+    return field === "projectId" ? "Inbox" : "None";
+  }
+
+  switch (field) {
+    case "completed":
+      return value ? "Done" : "Not done";
+    case "completeWithSubtasks":
+      return value ? "On" : "Off";
+    case "priority":
+      return PRIORITY_META[value as TodoPriority].label;
+    case "projectId":
+      return projects.find((project) => project.id === value)?.name ?? "Unknown project";
+    case "tags":
+      return (value as string[]).length > 0 ? (value as string[]).join(", ") : "None";
+    case "dueDate":
+      return format(value as Date, "MMM d, yyyy");
+    case "recurrence":
+      return describeRecurrence(value as RecurrenceRule);
+    default:
+      return String(value);
+  }
+};
+
+export const ConflictDialog = ({ conflict, onResolve }: ConflictDialogProps) => {
+  const { data: projects = [] } = useProjects();
+  const [rows] = useState<ConflictRow[]>(() => getConflictRows(conflict));
+  const [choices, setChoices] = useState(() => defaultConflictChoices(rows));
+
+  const choose = (field: ConflictField, choice: ConflictChoice) =>
+    setChoices((current) => ({ ...current, [field]: choice }));
+
+  const renderOption = (row: ConflictRow, choice: ConflictChoice) => {
+    const isChosen = choices[row.field] === choice;
+    return (
+      <button
+        type="button"
+        onClick={() => choose(row.field, choice)}
+        aria-pressed={isChosen}
+        className={cn(
+          "min-w-0 rounded-md border p-2 text-left text-sm transition-colors",
+          isChosen ? "border-primary bg-primary/10" : "hover:bg-muted",
+        )}
+      >
+        <span className="block text-xs text-muted-foreground">{choice === "mine" ? "Your version" : "Latest version"}</span>
+        <span className="block break-words">{formatValue(row.field, row[choice], projects)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onResolve(null)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>This task was changed elsewhere</DialogTitle>
+          <DialogDescription>
+            Someone saved "{conflict.theirs.title}" while you were editing it. Pick which value to keep for each
+            field that differs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          {rows.map((row) => (
+            <div key={row.field} className="space-y-1">
+              <p className="text-sm font-medium">{CONFLICT_FIELD_LABELS[row.field]}</p>
+              <div className="grid grid-cols-2 gap-2">
+                {renderOption(row, "mine")}
+                {renderOption(row, "theirs")}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onResolve(null)}>
+            Keep latest
+          </Button>
+          <Button type="button" onClick={() => onResolve(mergeConflict(conflict, rows, choices))}>
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
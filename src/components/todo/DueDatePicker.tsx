@@ -0,0 +1,78 @@
+// Due date + optional time picker built on the calendar popover
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarClock, X } from "lucide-react";
+import { getDueMoment } from "@/lib/dueDates";
+import { cn } from "@/lib/utils";
+
+interface DueDatePickerProps {
+  dueDate?: Date;
+  dueTime?: string;
+  onChange: (dueDate: Date | undefined, dueTime: string | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const DueDatePicker = ({ dueDate, dueTime, onChange, disabled, className }: DueDatePickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dueMoment = getDueMoment({ dueDate, dueTime });
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={cn("justify-start font-normal", !dueDate && "text-muted-foreground", className)}
+        >
+          <CalendarClock className="mr-2 h-4 w-4" />
+          {dueMoment
+            ? format(dueMoment, dueTime ? "MMM d, p" : "MMM d, yyyy")
+            : "Due date"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={dueDate}
+          onSelect={(date) => onChange(date, date ? dueTime : undefined)}
+          initialFocus
+        />
+        <div className="flex items-end gap-2 border-t p-3">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="due-time" className="text-xs text-muted-foreground">
+              Time (optional)
+            </Label>
+            <Input
+              id="due-time"
+              type="time"
+              value={dueTime ?? ""}
+              disabled={!dueDate}
+              onChange={(e) => onChange(dueDate, e.target.value || undefined)}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={!dueDate}
+            onClick={() => {
+              onChange(undefined, undefined);
+              setIsOpen(false);
+            }}
+          >
+            <X className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,31 @@
+// Renders text with search matches wrapped in <mark>
+
+import { Fragment } from "react";
+import { getHighlightRanges } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+export const HighlightedText = ({ text, terms = [] }: HighlightedTextProps) => {
+  const ranges = getHighlightRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  let cursor = 0;
+  return (
+    <>
+      {ranges.map(([start, end]) => {
+        const before = text.slice(cursor, start);
+        cursor = end;
+        return (
+          <Fragment key={start}>
+            {before}
+            <mark className="rounded-sm bg-warning/30 px-0.5 text-inherit">{text.slice(start, end)}</mark>
+          </Fragment>
+        );
+      })}
+      {text.slice(cursor)}
+    </>
+  );
+};
@@ -0,0 +1,25 @@
+// Compact priority indicator shown on todo cards
+
+import { Badge } from "@/components/ui/badge";
+import { Flag } from "lucide-react";
+import { TodoPriority } from "@/types/todo";
+import { PRIORITY_META } from "@/lib/priority";
+import { cn } from "@/lib/utils";
+
+interface PriorityBadgeProps {
+  priority: TodoPriority;
+  className?: string;
+}
+
+export const PriorityBadge = ({ priority, className }: PriorityBadgeProps) => {
+  if (priority === TodoPriority.NONE) return null;
+
+  const { label, badgeClassName } = PRIORITY_META[priority];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 text-xs font-medium", badgeClassName, className)}>
+      <Flag className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+};
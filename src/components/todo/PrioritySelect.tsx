@@ -0,0 +1,40 @@
+// Priority dropdown shared by the add form and the edit mode of a todo
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Flag } from "lucide-react";
+import { TodoPriority } from "@/types/todo";
+import { PRIORITIES, PRIORITY_META } from "@/lib/priority";
+import { cn } from "@/lib/utils";
+
+interface PrioritySelectProps {
+  value: TodoPriority;
+  onChange: (priority: TodoPriority) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const PrioritySelect = ({ value, onChange, disabled, className }: PrioritySelectProps) => {
+  return (
+    <Select value={value} onValueChange={(priority) => onChange(priority as TodoPriority)} disabled={disabled}>
+      <SelectTrigger className={cn("w-40", className)} aria-label="Priority">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PRIORITIES.map((priority) => (
+          <SelectItem key={priority} value={priority}>
+            <span className="flex items-center gap-2">
+              <Flag className={cn("h-3.5 w-3.5", PRIORITY_META[priority].textClassName)} />
+              {PRIORITY_META[priority].label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
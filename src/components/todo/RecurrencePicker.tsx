@@ -0,0 +1,155 @@
+// Repeat schedule editor shared by the add form and the edit mode of a todo
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Repeat, X } from "lucide-react";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types/todo";
+import {
+  FREQUENCY_LABELS,
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_INTERVAL_MAX,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+} from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+
+interface RecurrencePickerProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  // Due date the schedule repeats from; used for the weekly default and the summary
+  anchor?: Date;
+  disabled?: boolean;
+  className?: string;
+}
+
+const INTERVAL_UNITS: Partial<Record<RecurrenceFrequency, string>> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+  yearly: "year(s)",
+  afterCompletion: "day(s) after completion",
+};
+
+const NO_REPEAT = "none";
+
+export const RecurrencePicker = ({ value, onChange, anchor, disabled, className }: RecurrencePickerProps) => {
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NO_REPEAT) {
+      onChange(undefined);
+      return;
+    }
+
+    const rule: RecurrenceRule = { frequency: frequency as RecurrenceFrequency, interval: value?.interval ?? 1 };
+    if (rule.frequency === "weekly") rule.weekdays = [(anchor ?? new Date()).getDay()];
+    if (rule.frequency === "monthly") rule.monthlyMode = "dayOfMonth";
+    onChange(rule);
+  };
+
+  const handleIntervalChange = (raw: string) => {
+    const interval = Math.min(Math.max(Math.floor(Number(raw)) || 1, 1), RECURRENCE_INTERVAL_MAX);
+    onChange({ ...value, interval });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={cn("justify-start font-normal", !value && "text-muted-foreground", className)}
+        >
+          <Repeat className="mr-2 h-4 w-4" />
+          {value ? describeRecurrence(value, anchor) : "Repeat"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Repeats</Label>
+          <Select value={value?.frequency ?? NO_REPEAT} onValueChange={handleFrequencyChange}>
+            <SelectTrigger aria-label="Repeat frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+              {RECURRENCE_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {FREQUENCY_LABELS[frequency]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value && INTERVAL_UNITS[value.frequency] && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={RECURRENCE_INTERVAL_MAX}
+              value={value.interval}
+              onChange={(e) => handleIntervalChange(e.target.value)}
+              className="h-8 w-20"
+              aria-label="Repeat interval"
+            />
+            <span className="text-muted-foreground">{INTERVAL_UNITS[value.frequency]}</span>
+          </div>
+        )}
+
+        {value?.frequency === "weekly" && (
+          <ToggleGroup
+            type="multiple"
+            size="sm"
+            value={(value.weekdays ?? []).map(String)}
+            onValueChange={(days) => days.length > 0 && onChange({ ...value, weekdays: days.map(Number) })}
+            className="justify-between"
+          >
+            {WEEKDAY_LABELS.map((label, day) => (
+              <ToggleGroupItem key={label} value={String(day)} aria-label={label} className="h-8 w-8 px-0 text-xs">
+                {label.slice(0, 2)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+
+        {value?.frequency === "monthly" && (
+          <Select
+            value={value.monthlyMode ?? "dayOfMonth"}
+            onValueChange={(monthlyMode) =>
+              onChange({ ...value, monthlyMode: monthlyMode as RecurrenceRule["monthlyMode"] })
+            }
+          >
+            <SelectTrigger aria-label="Monthly repeat mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dayOfMonth">On the same day of the month</SelectItem>
+              <SelectItem value="nthWeekday">On the same weekday (e.g. 3rd Tuesday)</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+
+        {value && (
+          <div className="flex items-center justify-between border-t pt-3 text-xs text-muted-foreground">
+            <span>{describeRecurrence(value, anchor)}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
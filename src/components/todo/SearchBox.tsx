@@ -0,0 +1,91 @@
+// Search input with a cheat sheet of the supported query operators
+
+import { useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HelpCircle, Search, X } from "lucide-react";
+import { SEARCH_OPERATORS } from "@/lib/search";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const SearchBox = ({ value, onChange }: SearchBoxProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useShortcuts({
+    focusSearch: () => {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    },
+  });
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          // Escape clears the search, or leaves the field when it is already empty
+          if (e.key === "Escape") {
+            if (value) {
+              onChange("");
+            } else {
+              e.currentTarget.blur();
+            }
+          }
+        }}
+        placeholder="Search tasks, e.g. report tag:work is:open"
+        className="pl-9 pr-16 [&::-webkit-search-cancel-button]:hidden"
+        aria-label="Search tasks"
+      />
+      <div className="absolute right-1 top-1/2 flex -translate-y-1/2 items-center">
+        {value && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange("")}
+            className="h-7 w-7 p-0 text-muted-foreground"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0 text-muted-foreground"
+              aria-label="Search syntax"
+            >
+              <HelpCircle className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 space-y-2 text-sm">
+            <p className="font-medium text-card-foreground">Search syntax</p>
+            <p className="text-muted-foreground">
+              Words match titles, descriptions, tags and subtasks, ignoring case, accents and small typos.
+            </p>
+            <dl className="space-y-1.5">
+              {SEARCH_OPERATORS.map(({ example, description }) => (
+                <div key={example} className="flex gap-3">
+                  <dt className="w-28 shrink-0">
+                    <code className="rounded bg-muted px-1 py-0.5 text-xs">{example}</code>
+                  </dt>
+                  <dd className="text-muted-foreground">{description}</dd>
+                </div>
+              ))}
+            </dl>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+// Collapsible checklist of subtasks with progress, inline editing and reordering
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp, ListChecks, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAddSubtask, useRemoveSubtask, useReorderSubtasks, useUpdateSubtask } from "@/hooks/use-subtasks";
+import { ONLINE_ONLY_HINT, useOnlineActionsEnabled } from "@/hooks/use-sync-status";
+import { ApiError } from "@/services/todoApi";
+import { Subtask, Todo, UpdateTodoInput } from "@/types/todo";
+import { SUBTASK_TITLE_MAX_LENGTH, getSubtaskProgress, sortSubtasks } from "@/lib/subtasks";
+import { getHighlightRanges } from "@/lib/search";
+import { HighlightedText } from "./HighlightedText";
+import { cn } from "@/lib/utils";
+
+interface SubtaskRowProps {
+  subtask: Subtask;
+  isFirst: boolean;
+  isLast: boolean;
+  onUpdate: (subtask: Subtask, title: string | undefined, completed: boolean | undefined) => void;
+  onMove: (subtask: Subtask, offset: -1 | 1) => void;
+  onRemove: (subtask: Subtask) => void;
+  disabled: boolean;
+  highlight: string[];
+}
+
+const SubtaskRow = ({ subtask, isFirst, isLast, onUpdate, onMove, onRemove, disabled, highlight }: SubtaskRowProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(subtask.title);
+
+  const commitTitle = () => {
+    setIsEditing(false);
+    if (title.trim() && title.trim() !== subtask.title) {
+      onUpdate(subtask, title.trim(), undefined);
+    } else {
+      setTitle(subtask.title);
+    }
+  };
+
+  return (
+    <div className="group flex items-center gap-2">
+      <Checkbox
+        checked={subtask.completed}
+        onCheckedChange={() => onUpdate(subtask, undefined, !subtask.completed)}
+        disabled={disabled}
+        aria-label={`Mark "${subtask.title}" as ${subtask.completed ? "not done" : "done"}`}
+      />
+      {isEditing ? (
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+            if (e.key === "Escape") {
+              setTitle(subtask.title);
+              setIsEditing(false);
+            }
+          }}
+          maxLength={SUBTASK_TITLE_MAX_LENGTH}
+          className="h-7 flex-1 text-sm"
+          autoFocus
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => {
+            setTitle(subtask.title);
+            setIsEditing(true);
+          }}
+          disabled={disabled}
+          className={cn(
+            "flex-1 truncate text-left text-sm",
+            subtask.completed ? "line-through text-muted-foreground" : "text-card-foreground"
+          )}
+          title="Click to rename"
+        >
+          <HighlightedText text={subtask.title} terms={highlight} />
+        </button>
+      )}
+      <div className="flex opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onMove(subtask, -1)}
+          disabled={disabled || isFirst}
+          className="h-6 w-6 p-0 text-muted-foreground"
+          aria-label="Move up"
+        >
+          <ChevronUp className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onMove(subtask, 1)}
+          disabled={disabled || isLast}
+          className="h-6 w-6 p-0 text-muted-foreground"
+          aria-label="Move down"
+        >
+          <ChevronDown className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onRemove(subtask)}
+          disabled={disabled}
+          className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+          aria-label={`Remove "${subtask.title}"`}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface SubtaskListProps {
+  todo: Todo;
+  onUpdate: (id: string, input: UpdateTodoInput) => Promise<void>;
+  disabled: boolean;
+  // Search terms to highlight in subtask titles
+  highlight?: string[];
+}
+
+export const SubtaskList = ({ todo, onUpdate, disabled, highlight = [] }: SubtaskListProps) => {
+  const addSubtask = useAddSubtask();
+  const updateSubtask = useUpdateSubtask();
+  const reorderSubtasks = useReorderSubtasks();
+  const removeSubtask = useRemoveSubtask();
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const { toast } = useToast();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+
+  const subtasks = sortSubtasks(todo.subtasks);
+  const { done, total, percent } = getSubtaskProgress(todo);
+  const hasMatch = subtasks.some(subtask => getHighlightRanges(subtask.title, highlight).length > 0);
+
+  // Expand the checklist when a search matches one of its subtasks
+  useEffect(() => {
+    if (hasMatch) setIsOpen(true);
+  }, [hasMatch]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    try {
+      await addSubtask.mutateAsync({ todoId: todo.id, input: { title: newTitle.trim(), version: todo.version } });
+      setNewTitle("");
+    } catch (error) {
+      showError(error, 'Failed to add subtask. Please try again.');
+    }
+  };
+
+  const handleUpdate = async (subtask: Subtask, title: string | undefined, completed: boolean | undefined) => {
+    try {
+      await updateSubtask.mutateAsync({ todoId: todo.id, subtaskId: subtask.id, input: { title, completed, version: todo.version } });
+    } catch (error) {
+      showError(error, 'Failed to update subtask. Please try again.');
+    }
+  };
+
+  const handleMove = async (subtask: Subtask, offset: -1 | 1) => {
+    const ids = subtasks.map((candidate) => candidate.id);
+    const from = ids.indexOf(subtask.id);
+    ids.splice(from, 1);
+    ids.splice(from + offset, 0, subtask.id);
+
+    try {
+      await reorderSubtasks.mutateAsync({ todoId: todo.id, subtaskIds: ids, version: todo.version });
+    } catch (error) {
+      showError(error, 'Failed to reorder subtasks. Please try again.');
+    }
+  };
+
+  const handleRemove = async (subtask: Subtask) => {
+    try {
+      await removeSubtask.mutateAsync({ todoId: todo.id, subtaskId: subtask.id, version: todo.version });
+    } catch (error) {
+      showError(error, 'Failed to remove subtask. Please try again.');
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center gap-3 text-xs text-muted-foreground hover:text-card-foreground"
+        >
+          <ListChecks className="h-3.5 w-3.5 flex-shrink-0" />
+          {total > 0 ? (
+            <>
+              <span className="font-medium">{done}/{total}</span>
+              <Progress value={percent} className="h-1.5 max-w-40 flex-1" aria-label="Subtask progress" />
+            </>
+          ) : (
+            <span>Add subtasks</span>
+          )}
+          <ChevronDown className={cn("ml-auto h-3.5 w-3.5 transition-transform", isOpen && "rotate-180")} />
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-2 pl-1">
+        {subtasks.map((subtask, index) => (
+          <SubtaskRow
+            key={subtask.id}
+            subtask={subtask}
+            isFirst={index === 0}
+            isLast={index === subtasks.length - 1}
+            onUpdate={handleUpdate}
+            onMove={handleMove}
+            onRemove={handleRemove}
+            disabled={disabled || !onlineActionsEnabled}
+            highlight={highlight}
+          />
+        ))}
+
+        {/* Subtask changes can't be queued offline */}
+        {!onlineActionsEnabled && <p className="text-xs text-muted-foreground">{ONLINE_ONLY_HINT}</p>}
+
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <Input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            placeholder="Add a subtask"
+            maxLength={SUBTASK_TITLE_MAX_LENGTH}
+            disabled={disabled || !onlineActionsEnabled || addSubtask.isPending}
+            className="h-8 flex-1 text-sm"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={!newTitle.trim() || disabled || !onlineActionsEnabled || addSubtask.isPending}
+            className="h-8"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {total > 0 && (
+          <div className="flex items-center gap-2 pt-1">
+            <Switch
+              id={`complete-with-subtasks-${todo.id}`}
+              checked={Boolean(todo.completeWithSubtasks)}
+              onCheckedChange={(checked) => onUpdate(todo.id, { completeWithSubtasks: checked, version: todo.version }).catch(() => {})}
+              disabled={disabled}
+            />
+            <Label htmlFor={`complete-with-subtasks-${todo.id}`} className="text-xs font-normal text-muted-foreground">
+              Complete the task when all subtasks are done
+            </Label>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,35 @@
+// Colored tag chip shown on todo cards and inside the tag input
+
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { TagColor } from "@/types/todo";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagChipProps {
+  name: string;
+  color: TagColor;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export const TagChip = ({ name, color, onRemove, className }: TagChipProps) => {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 text-xs font-medium", TAG_COLOR_CLASSES[color].badge, className)}
+    >
+      #{name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full opacity-60 hover:opacity-100"
+          aria-label={`Remove tag ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  );
+};
@@ -0,0 +1,83 @@
+// Multi-select tag filter with an any/all match toggle
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tag as TagIcon } from "lucide-react";
+import { TagWithUsage } from "@/types/todo";
+import { TAG_COLOR_CLASSES, TagMatchMode, normalizeTagName } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagFilterProps {
+  tags: TagWithUsage[];
+  selected: string[];
+  mode: TagMatchMode;
+  onChange: (selected: string[]) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+  className?: string;
+}
+
+export const TagFilter = ({ tags, selected, mode, onChange, onModeChange, className }: TagFilterProps) => {
+  const selectedKeys = new Set(selected.map(normalizeTagName));
+
+  const toggle = (name: string) => {
+    onChange(
+      selectedKeys.has(normalizeTagName(name))
+        ? selected.filter((tag) => normalizeTagName(tag) !== normalizeTagName(name))
+        : [...selected, name],
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("justify-start gap-2 font-normal sm:w-44", className)}>
+          <TagIcon className="h-4 w-4 text-muted-foreground" />
+          {selected.length === 0 ? "All tags" : `${selected.length} tag${selected.length === 1 ? "" : "s"}`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Match</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && onModeChange(value as TagMatchMode)}
+          >
+            <ToggleGroupItem value="or" aria-label="Match any selected tag">Any</ToggleGroupItem>
+            <ToggleGroupItem value="and" aria-label="Match all selected tags">All</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet.</p>
+        ) : (
+          <div className="max-h-60 space-y-1 overflow-y-auto">
+            {tags.map((tag) => (
+              <label
+                key={tag.id}
+                className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-secondary/50"
+              >
+                <Checkbox
+                  checked={selectedKeys.has(normalizeTagName(tag.name))}
+                  onCheckedChange={() => toggle(tag.name)}
+                />
+                <span className={cn("h-2.5 w-2.5 rounded-full", TAG_COLOR_CLASSES[tag.color].swatch)} />
+                <span className="flex-1 truncate">{tag.name}</span>
+                <span className="text-xs text-muted-foreground">{tag.usageCount}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {selected.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange([])}>
+            Clear tag filter
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,95 @@
+// Tag editor shared by the add form and the edit mode of a todo
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Tag as TagIcon } from "lucide-react";
+import { TagChip } from "./TagChip";
+import { useTags } from "@/hooks/use-tags";
+import { TAG_NAME_MAX_LENGTH, getTagColor, normalizeTagName } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export const TagInput = ({ value, onChange, disabled, className }: TagInputProps) => {
+  const { data: tags } = useTags();
+  const [draft, setDraft] = useState("");
+
+  const selected = new Set(value.map(normalizeTagName));
+  const query = normalizeTagName(draft);
+  const suggestions = (tags ?? [])
+    .filter((tag) => !selected.has(normalizeTagName(tag.name)))
+    .filter((tag) => !query || normalizeTagName(tag.name).includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    setDraft("");
+    if (!trimmed || selected.has(normalizeTagName(trimmed))) return;
+
+    // Reuse the existing spelling so "Docs" and "docs" stay one tag
+    const existing = tags?.find((tag) => normalizeTagName(tag.name) === normalizeTagName(trimmed));
+    onChange([...value, existing?.name ?? trimmed]);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-input bg-background px-3 py-2">
+        <TagIcon className="h-4 w-4 text-muted-foreground" />
+        {value.map((name) => (
+          <TagChip
+            key={name}
+            name={name}
+            color={getTagColor(tags, name)}
+            onRemove={disabled ? undefined : () => removeTag(name)}
+          />
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(draft)}
+          placeholder={value.length === 0 ? "Add tags (Enter or comma to add)" : ""}
+          disabled={disabled}
+          maxLength={TAG_NAME_MAX_LENGTH}
+          className="h-6 min-w-[8rem] flex-1 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+          aria-label="Add tag"
+        />
+      </div>
+      {draft && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              // Keep focus in the input so onBlur doesn't add the partial draft first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+            >
+              <TagChip name={tag.name} color={tag.color} className="cursor-pointer hover:opacity-80" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+// Dialog for creating, renaming, recoloring, merging and deleting tags
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Merge, Plus, Tags, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ONLINE_ONLY_HINT, useOnlineActionsEnabled } from "@/hooks/use-sync-status";
+import { useCreateTag, useDeleteTag, useMergeTags, useTags, useUpdateTag } from "@/hooks/use-tags";
+import { ApiError } from "@/services/todoApi";
+import { TagColor, TagWithUsage } from "@/types/todo";
+import { DEFAULT_TAG_COLOR, TAG_NAME_MAX_LENGTH } from "@/lib/tags";
+import { ColorPicker } from "./ColorPicker";
+
+interface TagRowProps {
+  tag: TagWithUsage;
+  isSelected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onRename: (tag: TagWithUsage, name: string) => Promise<void>;
+  onRecolor: (tag: TagWithUsage, color: TagColor) => Promise<void>;
+  onDelete: (tag: TagWithUsage) => Promise<void>;
+  disabled: boolean;
+}
+
+const TagRow = ({ tag, isSelected, onSelectedChange, onRename, onRecolor, onDelete, disabled }: TagRowProps) => {
+  const [name, setName] = useState(tag.name);
+
+  const commitRename = async () => {
+    if (!name.trim() || name.trim() === tag.name) {
+      setName(tag.name);
+      return;
+    }
+    try {
+      await onRename(tag, name.trim());
+    } catch {
+      setName(tag.name);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Checkbox
+        checked={isSelected}
+        onCheckedChange={(checked) => onSelectedChange(checked === true)}
+        aria-label={`Select ${tag.name} for merging`}
+      />
+      <ColorPicker value={tag.color} onChange={(color) => onRecolor(tag, color)} disabled={disabled} />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        maxLength={TAG_NAME_MAX_LENGTH}
+        disabled={disabled}
+        className="h-8 flex-1"
+        aria-label={`Rename ${tag.name}`}
+      />
+      <span className="w-16 text-right text-xs text-muted-foreground">
+        {tag.usageCount} {tag.usageCount === 1 ? "task" : "tasks"}
+      </span>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onDelete(tag)}
+        disabled={disabled}
+        className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+        aria-label={`Delete ${tag.name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export const TagManagerDialog = () => {
+  const { data: tags = [] } = useTags();
+  const createTag = useCreateTag();
+  const updateTag = useUpdateTag();
+  const mergeTags = useMergeTags();
+  const deleteTag = useDeleteTag();
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const { toast } = useToast();
+
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<TagColor>(DEFAULT_TAG_COLOR);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState<string>();
+
+  // Tag changes can't be queued offline
+  const isBusy =
+    !onlineActionsEnabled || createTag.isPending || updateTag.isPending || mergeTags.isPending || deleteTag.isPending;
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await createTag.mutateAsync({ name: newName.trim(), color: newColor });
+      setNewName("");
+      setNewColor(DEFAULT_TAG_COLOR);
+    } catch (error) {
+      showError(error, 'Failed to create tag. Please try again.');
+    }
+  };
+
+  const handleRename = async (tag: TagWithUsage, name: string) => {
+    try {
+      await updateTag.mutateAsync({ id: tag.id, input: { name } });
+    } catch (error) {
+      showError(error, 'Failed to rename tag. Please try again.');
+      throw error;
+    }
+  };
+
+  const handleRecolor = async (tag: TagWithUsage, color: TagColor) => {
+    try {
+      await updateTag.mutateAsync({ id: tag.id, input: { color } });
+    } catch (error) {
+      showError(error, 'Failed to change tag color. Please try again.');
+    }
+  };
+
+  const handleDelete = async (tag: TagWithUsage) => {
+    try {
+      await deleteTag.mutateAsync(tag.id);
+      setSelectedIds((ids) => ids.filter((id) => id !== tag.id));
+      toast({
+        title: "Tag deleted",
+        description: `"${tag.name}" was removed from ${tag.usageCount} ${tag.usageCount === 1 ? "task" : "tasks"}.`,
+        variant: "default",
+      });
+    } catch (error) {
+      showError(error, 'Failed to delete tag. Please try again.');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return;
+
+    const sourceIds = selectedIds.filter((id) => id !== mergeTargetId);
+    try {
+      const target = await mergeTags.mutateAsync({ sourceIds, targetId: mergeTargetId });
+      setSelectedIds([]);
+      setMergeTargetId(undefined);
+      toast({
+        title: "Tags merged",
+        description: `${sourceIds.length} ${sourceIds.length === 1 ? "tag" : "tags"} merged into "${target.name}".`,
+        variant: "default",
+      });
+    } catch (error) {
+      showError(error, 'Failed to merge tags. Please try again.');
+    }
+  };
+
+  const selectedTags = tags.filter((tag) => selectedIds.includes(tag.id));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Tags className="h-4 w-4" />
+          Manage tags
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Manage tags</DialogTitle>
+          <DialogDescription>
+            {onlineActionsEnabled ? "Renaming or merging a tag updates every task that uses it." : ONLINE_ONLY_HINT}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <ColorPicker value={newColor} onChange={setNewColor} disabled={isBusy} />
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tag name"
+            maxLength={TAG_NAME_MAX_LENGTH}
+            disabled={isBusy}
+            className="h-8 flex-1"
+          />
+          <Button type="submit" size="sm" disabled={!newName.trim() || isBusy}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        <div className="max-h-72 space-y-2 overflow-y-auto py-1">
+          {tags.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No tags yet.</p>
+          ) : (
+            tags.map((tag) => (
+              <TagRow
+                key={`${tag.id}:${tag.name}`}
+                tag={tag}
+                isSelected={selectedIds.includes(tag.id)}
+                onSelectedChange={(selected) =>
+                  setSelectedIds((ids) => (selected ? [...ids, tag.id] : ids.filter((id) => id !== tag.id)))
+                }
+                onRename={handleRename}
+                onRecolor={handleRecolor}
+                onDelete={handleDelete}
+                disabled={isBusy}
+              />
+            ))
+          )}
+        </div>
+
+        {selectedTags.length >= 2 && (
+          <div className="flex flex-col gap-2 rounded-lg border border-border/50 bg-muted/30 p-3 sm:flex-row sm:items-center">
+            <span className="text-sm text-muted-foreground">Merge {selectedTags.length} tags into</span>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger className="h-8 sm:w-40" aria-label="Merge target">
+                <SelectValue placeholder="Choose tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedTags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={handleMerge}
+              disabled={!mergeTargetId || !selectedIds.includes(mergeTargetId) || isBusy}
+            >
+              <Merge className="h-4 w-4 mr-1" />
+              Merge
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 // Individual todo item component with edit/delete functionality
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -13,17 +13,59 @@ import {
   Check, 
   X, 
   Calendar,
-  Clock
+  CalendarClock,
+  Clock,
+  GripVertical,
+  Repeat
 } from "lucide-react";
-import { Todo, UpdateTodoInput } from "@/types/todo";
+import { PrioritySelect } from "./PrioritySelect";
+import { PriorityBadge } from "./PriorityBadge";
+import { DueDatePicker } from "./DueDatePicker";
+import { TagChip } from "./TagChip";
+import { TagInput } from "./TagInput";
+import { SubtaskList } from "./SubtaskList";
+import { RecurrencePicker } from "./RecurrencePicker";
+import { ConflictDialog } from "./ConflictDialog";
+import { HighlightedText } from "./HighlightedText";
+import { ProjectSelect } from "@/components/projects/ProjectSelect";
+import { useTags } from "@/hooks/use-tags";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { RecurrenceRule, Todo, TodoPriority, UpdateTodoInput } from "@/types/todo";
+import { PRIORITY_META } from "@/lib/priority";
+import { formatDueLabel, getDueStatus } from "@/lib/dueDates";
+import { getTagColor } from "@/lib/tags";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getConflictRows, isConflictError, TodoConflict } from "@/lib/conflicts";
+import { todoElementId } from "@/lib/projects";
 import { cn } from "@/lib/utils";
 
+// Manual ordering controls, only passed while the list is in manual order
+export interface ReorderControls {
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMove: (offset: -1 | 1) => Promise<void>;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+// Multi-select checkbox, only passed while the list is in selection mode
+export interface BulkSelection {
+  isChecked: boolean;
+  // Shift-clicks extend the selection from the last todo clicked
+  onCheck: (extendRange: boolean) => void;
+}
+
 interface ToDoItemProps {
   todo: Todo;
   onUpdate: (id: string, input: UpdateTodoInput) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
   isLoading: boolean;
-  loadingOperation?: string;
+  // Selected with the keyboard; receives the task shortcuts
+  isSelected?: boolean;
+  reorder?: ReorderControls;
+  bulkSelection?: BulkSelection;
+  // Search terms to highlight in the title, description and subtasks
+  highlight?: string[];
 }
 
 export const ToDoItem = ({ 
@@ -31,19 +73,61 @@ export const ToDoItem = ({
   onUpdate, 
   onDelete, 
   isLoading,
-  loadingOperation 
+  isSelected = false,
+  reorder,
+  bulkSelection,
+  highlight = []
 }: ToDoItemProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(todo.title);
   const [editDescription, setEditDescription] = useState(todo.description || "");
+  const [editPriority, setEditPriority] = useState<TodoPriority>(todo.priority);
+  const [editDueDate, setEditDueDate] = useState<Date | undefined>(todo.dueDate);
+  const [editDueTime, setEditDueTime] = useState<string | undefined>(todo.dueTime);
+  const [editTags, setEditTags] = useState<string[]>(todo.tags);
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceRule | undefined>(todo.recurrence);
+  const [editProjectId, setEditProjectId] = useState<string | undefined>(todo.projectId);
+  // The todo as it was when editing started; the save is checked against its version
+  const [editBase, setEditBase] = useState<Todo>(todo);
+  const [conflict, setConflict] = useState<TodoConflict | null>(null);
+  const { data: tags } = useTags();
+  const cardRef = useRef<HTMLDivElement>(null);
+  const handleRef = useRef<HTMLButtonElement>(null);
+
+  const dueLabel = formatDueLabel(todo);
+  const dueStatus = getDueStatus(todo);
+
+  // Sends an update made against `base`; if the todo changed in the meantime the merge dialog
+  // takes over instead of failing the change
+  const submitUpdate = async (base: Todo, input: UpdateTodoInput) => {
+    try {
+      await onUpdate(todo.id, input);
+    } catch (error) {
+      if (!isConflictError(error)) throw error;
+
+      const latest = { base, mine: input, theirs: error.details.todo };
+      // Nothing to merge when the other change already matches this one
+      if (getConflictRows(latest).length > 0) setConflict(latest);
+    }
+  };
 
-  const isItemLoading = isLoading && loadingOperation === todo.id;
+  const handleResolveConflict = async (input: UpdateTodoInput | null) => {
+    const latest = conflict?.theirs;
+    setConflict(null);
+    if (!input || !latest) return;
+
+    try {
+      await submitUpdate(latest, input);
+    } catch (error) {
+      console.error('Failed to save merged todo:', error);
+    }
+  };
 
   const handleToggleComplete = async () => {
-    if (isItemLoading) return;
+    if (isLoading) return;
     
     try {
-      await onUpdate(todo.id, { completed: !todo.completed });
+      await submitUpdate(todo, { completed: !todo.completed, version: todo.version });
     } catch (error) {
       console.error('Failed to toggle todo:', error);
     }
@@ -52,19 +136,38 @@ export const ToDoItem = ({
   const handleEdit = () => {
     setEditTitle(todo.title);
     setEditDescription(todo.description || "");
+    setEditPriority(todo.priority);
+    setEditDueDate(todo.dueDate);
+    setEditDueTime(todo.dueTime);
+    setEditTags(todo.tags);
+    setEditRecurrence(todo.recurrence);
+    setEditProjectId(todo.projectId);
+    setEditBase(todo);
     setIsEditing(true);
   };
 
   const handleSaveEdit = async () => {
     if (!editTitle.trim()) return;
 
+    // Leave edit mode right away; the change is applied optimistically
+    setIsEditing(false);
+
     try {
-      await onUpdate(todo.id, {
+      await submitUpdate(editBase, {
         title: editTitle.trim(),
-        description: editDescription.trim() || undefined
+        // An emptied description is sent as '' so it gets cleared
+        description: editDescription.trim(),
+        priority: editPriority,
+        dueDate: editDueDate ?? null,
+        dueTime: editDueTime ?? null,
+        tags: editTags,
+        recurrence: editRecurrence ?? null,
+        projectId: editProjectId ?? null,
+        version: editBase.version
       });
-      setIsEditing(false);
     } catch (error) {
+      // Reopen the editor with the draft so the rejected edit isn't lost
+      setIsEditing(true);
       console.error('Failed to update todo:', error);
     }
   };
@@ -72,11 +175,17 @@ export const ToDoItem = ({
   const handleCancelEdit = () => {
     setEditTitle(todo.title);
     setEditDescription(todo.description || "");
+    setEditPriority(todo.priority);
+    setEditDueDate(todo.dueDate);
+    setEditDueTime(todo.dueTime);
+    setEditTags(todo.tags);
+    setEditRecurrence(todo.recurrence);
+    setEditProjectId(todo.projectId);
     setIsEditing(false);
   };
 
   const handleDelete = async () => {
-    if (isItemLoading) return;
+    if (isLoading) return;
     
     try {
       await onDelete(todo.id);
@@ -85,6 +194,34 @@ export const ToDoItem = ({
     }
   };
 
+  // The item moves in the DOM, so focus is put back on the handle once it has settled
+  const handleMove = async (offset: -1 | 1) => {
+    if (!reorder || (offset === -1 ? !reorder.canMoveUp : !reorder.canMoveDown)) return;
+    await reorder.onMove(offset);
+    requestAnimationFrame(() => handleRef.current?.focus());
+  };
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", todo.id);
+    if (cardRef.current) e.dataTransfer.setDragImage(cardRef.current, 24, 24);
+    reorder?.onDragStart();
+  };
+
+  useShortcuts({
+    toggleComplete: handleToggleComplete,
+    editTask: handleEdit,
+    deleteTask: handleDelete,
+    moveTaskUp: () => handleMove(-1),
+    moveTaskDown: () => handleMove(1),
+  }, isSelected && !isEditing);
+
+  useEffect(() => {
+    if (!isSelected) return;
+    cardRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    cardRef.current?.focus({ preventScroll: true });
+  }, [isSelected]);
+
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
@@ -96,20 +233,63 @@ export const ToDoItem = ({
 
   return (
     <Card 
+      ref={cardRef}
+      id={todoElementId(todo.id)}
+      tabIndex={-1}
       className={cn(
-        "todo-card transition-all duration-300 animate-fade-in",
+        "todo-card transition-all duration-300 animate-fade-in border-l-4 scroll-mt-24 focus:outline-none focus:ring-2 focus:ring-primary",
+        PRIORITY_META[todo.priority].accentClassName,
         todo.completed && "todo-card-completed",
-        isItemLoading && "opacity-60"
+        isSelected && "ring-2 ring-primary",
+        bulkSelection?.isChecked && "bg-primary/5",
+        isLoading && "opacity-60"
       )}
     >
       <CardContent className="p-6">
         <div className="flex items-start gap-4">
+          {/* Selection Checkbox */}
+          {bulkSelection && (
+            <div className="flex-shrink-0 pt-1">
+              <Checkbox
+                checked={bulkSelection.isChecked}
+                onClick={(e) => {
+                  e.preventDefault();
+                  bulkSelection.onCheck(e.shiftKey);
+                }}
+                className="h-5 w-5 rounded-full"
+                aria-label={`Select "${todo.title}"`}
+              />
+            </div>
+          )}
+
+          {/* Drag Handle */}
+          {reorder && !isEditing && (
+            <button
+              ref={handleRef}
+              type="button"
+              draggable
+              onDragStart={handleDragStart}
+              onDragEnd={reorder.onDragEnd}
+              onKeyDown={(e) => {
+                if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+                  e.preventDefault();
+                  handleMove(e.key === "ArrowUp" ? -1 : 1);
+                }
+              }}
+              disabled={isLoading}
+              className="-ml-3 -mr-2 mt-1 flex-shrink-0 cursor-grab rounded text-muted-foreground/50 hover:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+              aria-label={`Reorder "${todo.title}". Drag, or use the arrow keys to move it`}
+            >
+              <GripVertical className="h-5 w-5" />
+            </button>
+          )}
+
           {/* Checkbox */}
           <div className="flex-shrink-0 pt-1">
             <Checkbox
               checked={todo.completed}
               onCheckedChange={handleToggleComplete}
-              disabled={isItemLoading}
+              disabled={isLoading}
               className={cn(
                 "h-5 w-5 rounded-md border-2 transition-all duration-200",
                 todo.completed 
@@ -139,11 +319,43 @@ export const ToDoItem = ({
                   rows={3}
                   maxLength={500}
                 />
+                <div className="flex flex-wrap gap-2">
+                  <ProjectSelect
+                    value={editProjectId}
+                    onChange={setEditProjectId}
+                    disabled={isLoading}
+                  />
+                  <PrioritySelect
+                    value={editPriority}
+                    onChange={setEditPriority}
+                    disabled={isLoading}
+                  />
+                  <DueDatePicker
+                    dueDate={editDueDate}
+                    dueTime={editDueTime}
+                    onChange={(date, time) => {
+                      setEditDueDate(date);
+                      setEditDueTime(time);
+                    }}
+                    disabled={isLoading}
+                  />
+                  <RecurrencePicker
+                    value={editRecurrence}
+                    onChange={setEditRecurrence}
+                    anchor={editDueDate}
+                    disabled={isLoading}
+                  />
+                </div>
+                <TagInput
+                  value={editTags}
+                  onChange={setEditTags}
+                  disabled={isLoading}
+                />
                 <div className="flex gap-2">
                   <Button
                     size="sm"
                     onClick={handleSaveEdit}
-                    disabled={!editTitle.trim() || isItemLoading}
+                    disabled={!editTitle.trim() || isLoading}
                     className="bg-success hover:bg-success/90 text-success-foreground"
                   >
                     <Check className="h-4 w-4 mr-1" />
@@ -153,7 +365,7 @@ export const ToDoItem = ({
                     size="sm"
                     variant="outline"
                     onClick={handleCancelEdit}
-                    disabled={isItemLoading}
+                    disabled={isLoading}
                   >
                     <X className="h-4 w-4 mr-1" />
                     Cancel
@@ -163,16 +375,19 @@ export const ToDoItem = ({
             ) : (
               /* View Mode */
               <div className="space-y-3">
-                <h3 
-                  className={cn(
-                    "font-semibold text-lg leading-tight transition-all duration-200",
-                    todo.completed 
-                      ? "line-through text-muted-foreground" 
-                      : "text-card-foreground"
-                  )}
-                >
-                  {todo.title}
-                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 
+                    className={cn(
+                      "font-semibold text-lg leading-tight transition-all duration-200",
+                      todo.completed 
+                        ? "line-through text-muted-foreground" 
+                        : "text-card-foreground"
+                    )}
+                  >
+                    <HighlightedText text={todo.title} terms={highlight} />
+                  </h3>
+                  <PriorityBadge priority={todo.priority} />
+                </div>
                 
                 {todo.description && (
                   <p 
@@ -183,12 +398,41 @@ export const ToDoItem = ({
                         : "text-muted-foreground"
                     )}
                   >
-                    {todo.description}
+                    <HighlightedText text={todo.description} terms={highlight} />
                   </p>
                 )}
 
+                <SubtaskList todo={todo} onUpdate={(_, input) => submitUpdate(todo, input)} disabled={isLoading} highlight={highlight} />
+
+                {todo.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {todo.tags.map((name) => (
+                      <TagChip key={name} name={name} color={getTagColor(tags, name)} />
+                    ))}
+                  </div>
+                )}
+
                 {/* Metadata */}
-                <div className="flex items-center gap-4 text-xs text-muted-foreground/70">
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground/70">
+                  {dueLabel && (
+                    <div
+                      className={cn(
+                        "flex items-center gap-1 font-medium",
+                        dueStatus === "overdue" && "text-destructive",
+                        dueStatus === "today" && "text-warning",
+                        dueStatus === "upcoming" && "text-primary"
+                      )}
+                    >
+                      <CalendarClock className="h-3 w-3" />
+                      {dueLabel}
+                    </div>
+                  )}
+                  {todo.recurrence && (
+                    <div className="flex items-center gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {describeRecurrence(todo.recurrence, todo.dueDate)}
+                    </div>
+                  )}
                   <div className="flex items-center gap-1">
                     <Calendar className="h-3 w-3" />
                     Created {formatDate(todo.createdAt)}
@@ -211,10 +455,10 @@ export const ToDoItem = ({
                 size="sm"
                 variant="ghost"
                 onClick={handleEdit}
-                disabled={isItemLoading}
+                disabled={isLoading}
                 className="h-8 w-8 p-0 text-muted-foreground hover:text-card-foreground hover:bg-secondary/50"
               >
-                {isItemLoading ? (
+                {isLoading ? (
                   <LoadingSpinner size="sm" />
                 ) : (
                   <Edit3 className="h-4 w-4" />
@@ -225,7 +469,7 @@ export const ToDoItem = ({
                 size="sm"
                 variant="ghost"
                 onClick={handleDelete}
-                disabled={isItemLoading}
+                disabled={isLoading}
                 className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
               >
                 <Trash2 className="h-4 w-4" />
@@ -234,6 +478,7 @@ export const ToDoItem = ({
           )}
         </div>
       </CardContent>
+      {conflict && <ConflictDialog conflict={conflict} onResolve={handleResolveConflict} />}
     </Card>
   );
 };
\ No newline at end of file
@@ -1,51 +1,223 @@
 // Main todo list component with filtering capabilities
 
-import { Todo, TodoFilter } from "@/types/todo";
-import { ToDoItem } from "./ToDoItem";
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { BulkUpdateTodosInput, Todo, TodoFilter, TodoSort, TodoSortField, UpdateTodoInput } from "@/types/todo";
+import { ReorderControls, ToDoItem } from "./ToDoItem";
+import { TagFilter } from "./TagFilter";
+import { TagManagerDialog } from "./TagManagerDialog";
+import { SearchBox } from "./SearchBox";
+import { BulkActionBar } from "./BulkActionBar";
+import { useTags } from "@/hooks/use-tags";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { ONLINE_ONLY_HINT, useOnlineActionsEnabled } from "@/hooks/use-sync-status";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   CheckCircle2, 
   Circle, 
   List, 
+  ListChecks,
   Trash2,
-  Filter
+  Filter,
+  Flag,
+  ArrowDownUp,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  AlertCircle,
+  CalendarDays,
+  CalendarClock
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ALL_PRIORITIES, PriorityFilter, isTrashed, matchesFilter, matchesPriority } from "@/lib/todoFilters";
+import { PRIORITIES, PRIORITY_META } from "@/lib/priority";
+import { SORT_FIELDS, SORT_FIELD_META } from "@/lib/sorting";
+import { TagMatchMode, matchesTags } from "@/lib/tags";
+import { SEARCH_PARAM, isEmptySearch, matchesSearch, parseSearchQuery } from "@/lib/search";
+
+type DropPosition = "before" | "after";
 
 interface ToDoListProps {
   todos: Todo[];
-  onUpdate: (id: string, input: any) => Promise<void>;
+  onUpdate: (id: string, input: UpdateTodoInput) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
   onBulkDelete: () => Promise<void>;
-  isLoading: boolean;
-  loadingOperation?: string;
+  // Bulk actions on the multi-selection
+  onUpdateMany: (ids: string[], input: BulkUpdateTodosInput) => Promise<void>;
+  onDeleteMany: (ids: string[]) => Promise<void>;
+  // Moves `ids` right after `afterId`, or to the top when it is null
+  onReorder: (ids: string[], afterId: string | null) => Promise<void>;
+  pendingIds: Set<string>;
+  isClearingCompleted: boolean;
   filter: TodoFilter;
   onFilterChange: (filter: TodoFilter) => void;
+  // `todos` already arrive in this order
+  sort: TodoSort;
+  onSortChange: (sort: TodoSort) => void;
 }
 
 export const ToDoList = ({ 
-  todos, 
+  todos: allTodos, 
   onUpdate, 
   onDelete, 
   onBulkDelete,
-  isLoading,
-  loadingOperation,
+  onUpdateMany,
+  onDeleteMany,
+  onReorder,
+  pendingIds,
+  isClearingCompleted,
   filter,
-  onFilterChange
+  onFilterChange,
+  sort,
+  onSortChange
 }: ToDoListProps) => {
-  const completedCount = todos.filter(todo => todo.completed).length;
+  const [priorityFilter, setPriorityFilter] = useState<PriorityFilter>(ALL_PRIORITIES);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>("or");
+  const { data: tags = [] } = useTags();
+  // The search lives in the URL so it can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchText = searchParams.get(SEARCH_PARAM) ?? "";
+  const search = useMemo(() => parseSearchQuery(searchText), [searchText]);
+
+  const handleSearchChange = (value: string) => {
+    setSearchParams(params => {
+      if (value) {
+        params.set(SEARCH_PARAM, value);
+      } else {
+        params.delete(SEARCH_PARAM);
+      }
+      return params;
+    }, { replace: true });
+  };
+
+  const todos = allTodos.filter(todo => !isTrashed(todo));
+  const completedCount = todos.filter(todo => matchesFilter(todo, TodoFilter.COMPLETED)).length;
   const activeCount = todos.length - completedCount;
+  const countFor = (key: TodoFilter) => todos.filter(todo => matchesFilter(todo, key)).length;
+
+  const filteredTodos = todos.filter(todo =>
+    matchesFilter(todo, filter) &&
+    matchesPriority(todo, priorityFilter) &&
+    matchesTags(todo, tagFilter, tagMatchMode) &&
+    matchesSearch(todo, search)
+  );
+
+  // Keyboard selection; the selected item handles its own toggle/edit/delete shortcuts
+  const [selectedId, setSelectedId] = useState<string>();
+  const moveSelection = (offset: 1 | -1) => {
+    if (filteredTodos.length === 0) return;
+    const index = filteredTodos.findIndex(todo => todo.id === selectedId);
+    const nextIndex = index === -1
+      ? (offset === 1 ? 0 : filteredTodos.length - 1)
+      : Math.min(Math.max(index + offset, 0), filteredTodos.length - 1);
+    setSelectedId(filteredTodos[nextIndex].id);
+  };
+
+  // Multi-select: a click toggles one todo and a shift-click extends from the last one clicked.
+  // Only visible todos count, so bulk actions never touch todos hidden by the filters.
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set());
+  const [anchorId, setAnchorId] = useState<string>();
+  const checkedTodoIds = filteredTodos.filter(todo => checkedIds.has(todo.id)).map(todo => todo.id);
+  const isBulkPending = checkedTodoIds.some(id => pendingIds.has(id));
+
+  const handleCheck = (todo: Todo, index: number, extendRange: boolean) => {
+    const checked = !checkedIds.has(todo.id);
+    const anchorIndex = filteredTodos.findIndex(candidate => candidate.id === anchorId);
+    const range = extendRange && anchorIndex !== -1
+      ? filteredTodos.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : [todo];
+
+    setCheckedIds(previous => {
+      const next = new Set(previous);
+      range.forEach(({ id }) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    setAnchorId(todo.id);
+  };
+
+  const handleSelectAll = (selected: boolean) => {
+    setCheckedIds(new Set(selected ? filteredTodos.map(todo => todo.id) : []));
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setCheckedIds(new Set());
+    setAnchorId(undefined);
+  };
 
-  const filteredTodos = todos.filter(todo => {
-    switch (filter) {
-      case TodoFilter.ACTIVE:
-        return !todo.completed;
-      case TodoFilter.COMPLETED:
-        return todo.completed;
-      default:
-        return true;
+  const handleUpdateChecked = (input: BulkUpdateTodosInput) => {
+    // Failures are reported by the caller
+    onUpdateMany(checkedTodoIds, input).catch(() => undefined);
+  };
+
+  // The selection survives a failed delete so it can be retried
+  const handleDeleteChecked = () => {
+    onDeleteMany(checkedTodoIds).then(() => setCheckedIds(new Set()), () => undefined);
+  };
+
+  // Drag and drop (and keyboard moves) only make sense while the manual order is shown.
+  // Positions are relative to the visible list; hidden todos keep their ranks.
+  const [draggedId, setDraggedId] = useState<string>();
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition }>();
+  // Bulk changes and moves can't be queued offline
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const canReorder = sort.field === "manual" && onlineActionsEnabled;
+
+  const moveAfter = (id: string, afterId: string | null) => {
+    if (afterId === id) return Promise.resolve();
+    return onReorder([id], afterId);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, todo: Todo) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    setDropTarget({ id: todo.id, position: e.clientY < top + height / 2 ? "before" : "after" });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (draggedId && dropTarget && dropTarget.id !== draggedId) {
+      const others = filteredTodos.filter(todo => todo.id !== draggedId);
+      const targetIndex = others.findIndex(todo => todo.id === dropTarget.id);
+      const afterIndex = dropTarget.position === "before" ? targetIndex - 1 : targetIndex;
+      moveAfter(draggedId, others[afterIndex]?.id ?? null).catch(() => undefined);
     }
+    setDraggedId(undefined);
+    setDropTarget(undefined);
+  };
+
+  const reorderControls = (todo: Todo, index: number): ReorderControls | undefined => canReorder ? {
+    canMoveUp: index > 0,
+    canMoveDown: index < filteredTodos.length - 1,
+    // Up lands after the todo two places above; down lands after the next one
+    onMove: (offset) => moveAfter(
+      todo.id,
+      offset === -1 ? filteredTodos[index - 2]?.id ?? null : filteredTodos[index + 1].id
+    ),
+    onDragStart: () => setDraggedId(todo.id),
+    onDragEnd: () => {
+      setDraggedId(undefined);
+      setDropTarget(undefined);
+    },
+  } : undefined;
+
+  useShortcuts({
+    nextTask: () => moveSelection(1),
+    previousTask: () => moveSelection(-1),
+    filterAll: () => onFilterChange(TodoFilter.ALL),
+    filterActive: () => onFilterChange(TodoFilter.ACTIVE),
+    filterCompleted: () => onFilterChange(TodoFilter.COMPLETED),
   });
 
   const filterButtons = [
@@ -66,6 +238,24 @@ export const ToDoList = ({
       label: "Completed", 
       icon: CheckCircle2, 
       count: completedCount 
+    },
+    {
+      key: TodoFilter.OVERDUE,
+      label: "Overdue",
+      icon: AlertCircle,
+      count: countFor(TodoFilter.OVERDUE)
+    },
+    {
+      key: TodoFilter.TODAY,
+      label: "Today",
+      icon: CalendarDays,
+      count: countFor(TodoFilter.TODAY)
+    },
+    {
+      key: TodoFilter.UPCOMING,
+      label: "Upcoming",
+      icon: CalendarClock,
+      count: countFor(TodoFilter.UPCOMING)
     }
   ];
 
@@ -94,7 +284,7 @@ export const ToDoList = ({
           <span className="text-sm font-medium text-card-foreground">Filter tasks:</span>
         </div>
         
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           {filterButtons.map(({ key, label, icon: Icon, count }) => (
             <Button
               key={key}
@@ -126,19 +316,112 @@ export const ToDoList = ({
         </div>
       </div>
 
+      {/* Search, Priority & Tag Filters, Sorting */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-2">
+        <SearchBox value={searchText} onChange={handleSearchChange} />
+
+        <TagManagerDialog />
+
+        <TagFilter
+          tags={tags}
+          selected={tagFilter}
+          mode={tagMatchMode}
+          onChange={setTagFilter}
+          onModeChange={setTagMatchMode}
+        />
+
+        <Select value={priorityFilter} onValueChange={(value) => setPriorityFilter(value as PriorityFilter)}>
+          <SelectTrigger className="sm:w-44" aria-label="Filter by priority">
+            <span className="flex items-center gap-2">
+              <Flag className="h-4 w-4 text-muted-foreground" />
+              <SelectValue />
+            </span>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PRIORITIES}>All priorities</SelectItem>
+            {PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {PRIORITY_META[priority].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Select
+            value={sort.field}
+            onValueChange={(value) => {
+              const field = value as TodoSortField;
+              onSortChange({ field, direction: SORT_FIELD_META[field].defaultDirection });
+            }}
+          >
+            <SelectTrigger className="flex-1 sm:w-44" aria-label="Sort tasks by">
+              <span className="flex items-center gap-2">
+                <ArrowDownUp className="h-4 w-4 text-muted-foreground" />
+                <SelectValue />
+              </span>
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_FIELDS.map((field) => (
+                <SelectItem key={field} value={field}>
+                  {SORT_FIELD_META[field].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {SORT_FIELD_META[sort.field].directional && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={() => onSortChange({ ...sort, direction: sort.direction === "asc" ? "desc" : "asc" })}
+              aria-label={sort.direction === "asc" ? "Sort descending" : "Sort ascending"}
+              title={sort.direction === "asc" ? "Ascending" : "Descending"}
+            >
+              {sort.direction === "asc"
+                ? <ArrowUpNarrowWide className="h-4 w-4" />
+                : <ArrowDownWideNarrow className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      </div>
+
       {/* Bulk Actions */}
-      {completedCount > 0 && (
-        <div className="flex justify-end">
+      {isSelecting ? (
+        <BulkActionBar
+          selectedCount={checkedTodoIds.length}
+          visibleCount={filteredTodos.length}
+          onSelectAll={handleSelectAll}
+          onUpdate={handleUpdateChecked}
+          onDelete={handleDeleteChecked}
+          onExit={exitSelection}
+          isPending={isBulkPending || !onlineActionsEnabled}
+        />
+      ) : todos.length > 0 && (
+        <div className="flex justify-end gap-2">
           <Button
             variant="outline"
             size="sm"
-            onClick={onBulkDelete}
-            disabled={isLoading}
-            className="text-destructive hover:text-destructive hover:bg-destructive/10 border-destructive/20"
+            onClick={() => setIsSelecting(true)}
+            disabled={!onlineActionsEnabled}
+            title={onlineActionsEnabled ? undefined : ONLINE_ONLY_HINT}
           >
-            <Trash2 className="h-4 w-4 mr-2" />
-            Clear Completed ({completedCount})
+            <ListChecks className="h-4 w-4 mr-2" />
+            Select
           </Button>
+          {completedCount > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onBulkDelete}
+              disabled={isClearingCompleted || !onlineActionsEnabled}
+              title={onlineActionsEnabled ? undefined : ONLINE_ONLY_HINT}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10 border-destructive/20"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear Completed ({completedCount})
+            </Button>
+          )}
         </div>
       )}
 
@@ -147,19 +430,42 @@ export const ToDoList = ({
         {filteredTodos.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-muted-foreground">
-              No {filter === TodoFilter.ALL ? '' : filter.toLowerCase()} tasks found.
+              No {filter === TodoFilter.ALL ? '' : filter.toLowerCase()} tasks found
+              {priorityFilter !== ALL_PRIORITIES && ` with ${PRIORITY_META[priorityFilter].label.toLowerCase()} priority`}
+              {tagFilter.length > 0 && ` tagged ${tagFilter.map(tag => `#${tag}`).join(tagMatchMode === "and" ? " and " : " or ")}`}
+              {!isEmptySearch(search) && ` matching "${searchText.trim()}"`}.
             </p>
           </div>
         ) : (
-          filteredTodos.map((todo) => (
-            <ToDoItem
+          filteredTodos.map((todo, index) => (
+            <div
               key={todo.id}
-              todo={todo}
-              onUpdate={onUpdate}
-              onDelete={onDelete}
-              isLoading={isLoading}
-              loadingOperation={loadingOperation}
-            />
+              onDragOver={(e) => handleDragOver(e, todo)}
+              onDrop={handleDrop}
+              className={cn("relative transition-opacity", todo.id === draggedId && "opacity-40")}
+            >
+              {dropTarget?.id === todo.id && todo.id !== draggedId && (
+                <div
+                  className={cn(
+                    "absolute inset-x-0 h-0.5 rounded-full bg-primary",
+                    dropTarget.position === "before" ? "-top-2" : "-bottom-2"
+                  )}
+                />
+              )}
+              <ToDoItem
+                todo={todo}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+                isLoading={pendingIds.has(todo.id)}
+                isSelected={todo.id === selectedId}
+                reorder={reorderControls(todo, index)}
+                bulkSelection={isSelecting ? {
+                  isChecked: checkedIds.has(todo.id),
+                  onCheck: (extendRange) => handleCheck(todo, index, extendRange),
+                } : undefined}
+                highlight={search.terms}
+              />
+            </div>
           ))
         )}
       </div>
@@ -0,0 +1,91 @@
+// Trashed todo card with restore and permanent delete actions
+
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { RotateCcw, Trash2, Clock } from "lucide-react";
+import { Todo } from "@/types/todo";
+import { getPurgeDate } from "@/lib/todoFilters";
+import { cn } from "@/lib/utils";
+
+interface TrashedToDoItemProps {
+  todo: Todo;
+  retentionDays: number;
+  onRestore: (id: string) => Promise<void>;
+  onPurge: (id: string) => Promise<void>;
+  isLoading: boolean;
+  disabled?: boolean;
+}
+
+export const TrashedToDoItem = ({
+  todo,
+  retentionDays,
+  onRestore,
+  onPurge,
+  isLoading,
+  disabled
+}: TrashedToDoItemProps) => {
+  const purgeDate = getPurgeDate(todo, retentionDays);
+
+  return (
+    <Card className={cn("todo-card transition-all duration-300 animate-fade-in", isLoading && "opacity-60")}>
+      <CardContent className="p-6">
+        <div className="flex items-start gap-4">
+          <div className="flex-1 min-w-0 space-y-2">
+            <h3 className="font-semibold text-lg leading-tight text-muted-foreground">
+              {todo.title}
+            </h3>
+
+            {todo.description && (
+              <p className="text-sm leading-relaxed text-muted-foreground/70">
+                {todo.description}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground/70">
+              <div className="flex items-center gap-1">
+                <Trash2 className="h-3 w-3" />
+                Deleted {formatDistanceToNow(new Date(todo.deletedAt), { addSuffix: true })}
+              </div>
+              {purgeDate && (
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Permanently deleted {formatDistanceToNow(purgeDate, { addSuffix: true })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex-shrink-0 flex gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRestore(todo.id)}
+              disabled={isLoading || disabled}
+              className="h-8 px-2 text-muted-foreground hover:text-card-foreground hover:bg-secondary/50"
+            >
+              {isLoading ? (
+                <LoadingSpinner size="sm" />
+              ) : (
+                <RotateCcw className="h-4 w-4" />
+              )}
+              <span className="ml-1 hidden sm:inline">Restore</span>
+            </Button>
+
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onPurge(todo.id)}
+              disabled={isLoading || disabled}
+              className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+              aria-label="Delete permanently"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { faultInjector } from "@/services/faultInjection";
+
+const subscribe = (listener: () => void) => faultInjector.subscribe(listener);
+const getSnapshot = () => faultInjector.getConfig();
+
+export function useFaultInjection() {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { todoApi } from "@/services/todoApi";
+import { CreateProjectInput, UpdateProjectInput } from "@/types/todo";
+import { invalidateWhenIdle, todoKeys } from "./use-todos";
+
+export interface UpdateProjectVariables {
+  id: string;
+  input: UpdateProjectInput;
+}
+
+// Deleting a project moves its todos, so project mutations refetch the todo lists too
+export const projectMutationKeys = {
+  create: [...todoKeys.projects(), "create"] as const,
+  update: [...todoKeys.projects(), "update"] as const,
+  delete: [...todoKeys.projects(), "delete"] as const,
+};
+
+export function useProjects() {
+  return useQuery({
+    queryKey: todoKeys.projects(),
+    queryFn: async () => (await todoApi.getProjects()).data,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+}
+
+export function useCreateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: projectMutationKeys.create,
+    mutationFn: async (input: CreateProjectInput) => (await todoApi.createProject(input)).data,
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useUpdateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: projectMutationKeys.update,
+    mutationFn: async ({ id, input }: UpdateProjectVariables) => (await todoApi.updateProject(id, input)).data,
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useDeleteProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: projectMutationKeys.delete,
+    mutationFn: async (id: string) => {
+      await todoApi.deleteProject(id);
+      return id;
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
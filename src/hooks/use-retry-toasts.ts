@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { toast, useToast } from "@/hooks/use-toast";
+import { retryTracker, RetryState } from "@/services/retry";
+
+const describe = ({ label, attempt, attempts, error }: RetryState) => ({
+  title: `Retrying (${attempt}/${attempts})…`,
+  description: `${label}: ${error.message}`,
+});
+
+// Keeps one toast up while any request is being retried, showing the latest attempt, and closes
+// it once every retry has settled. The request's own success or error toast follows as usual.
+export function useRetryToasts() {
+  const { toasts } = useToast();
+  const toastsRef = useRef(toasts);
+  toastsRef.current = toasts;
+
+  useEffect(() => {
+    let current: ReturnType<typeof toast> | null = null;
+
+    const unsubscribe = retryTracker.subscribe((states) => {
+      const latest = states[states.length - 1];
+      if (!latest) {
+        current?.dismiss();
+        current = null;
+      } else if (current) {
+        current.update({ id: current.id, ...describe(latest) });
+      } else if (!toastsRef.current.some((shown) => shown.open && shown.action)) {
+        // Only one toast fits on screen; one the user can still act on (e.g. Undo) takes precedence
+        current = toast(describe(latest));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      current?.dismiss();
+    };
+  }, []);
+}
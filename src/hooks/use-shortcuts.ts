@@ -0,0 +1,49 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { ShortcutAction, shortcutStore } from "@/lib/shortcuts";
+import { isEditableTarget } from "@/lib/keyboard";
+
+const subscribe = (listener: () => void) => shortcutStore.subscribe(listener);
+const getSnapshot = () => shortcutStore.getBindings();
+
+export function useShortcutBindings() {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Typing, modifier chords and keys pressed inside dialogs or menus never trigger shortcuts
+const shouldIgnore = (event: KeyboardEvent) =>
+  event.defaultPrevented ||
+  event.ctrlKey ||
+  event.metaKey ||
+  event.altKey ||
+  isEditableTarget(event.target) ||
+  (event.target instanceof Element &&
+    Boolean(event.target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]')));
+
+// Runs the handler bound to each pressed key while `enabled`
+export function useShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const bindings = useShortcutBindings();
+  // Latest handlers without re-subscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnore(event)) return;
+
+      const action = (Object.keys(handlersRef.current) as ShortcutAction[]).find(
+        (candidate) => bindings[candidate] === event.key,
+      );
+      if (!action) return;
+
+      event.preventDefault();
+      handlersRef.current[action]?.();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [bindings, enabled]);
+}
@@ -0,0 +1,16 @@
+import { useCallback, useState } from "react";
+import { TodoSort } from "@/types/todo";
+import { getSortPreference, saveSortPreference } from "@/lib/sortPreferences";
+
+// The saved sort of `viewId`; switching views picks up that view's own sort
+export function useSortPreference(viewId: string) {
+  const [state, setState] = useState(() => ({ viewId, sort: getSortPreference(viewId) }));
+  const sort = state.viewId === viewId ? state.sort : getSortPreference(viewId);
+
+  const setSort = useCallback((next: TodoSort) => {
+    saveSortPreference(viewId, next);
+    setState({ viewId, sort: next });
+  }, [viewId]);
+
+  return [sort, setSort] as const;
+}
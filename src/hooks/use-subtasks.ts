@@ -0,0 +1,126 @@
+import { QueryClient, useMutation, useQueryClient } from "@tanstack/react-query";
+import { todoApi } from "@/services/todoApi";
+import { CreateSubtaskInput, Subtask, Todo, UpdateSubtaskInput } from "@/types/todo";
+import { reorderSubtaskList, sortSubtasks, withSubtasks } from "@/lib/subtasks";
+import { isConflictError } from "@/lib/conflicts";
+import { OptimisticContext, applyOptimistic, invalidateWhenIdle, rollback, todoKeys, updateTodoLists } from "./use-todos";
+
+export interface AddSubtaskVariables {
+  todoId: string;
+  input: CreateSubtaskInput;
+}
+
+export interface UpdateSubtaskVariables {
+  todoId: string;
+  subtaskId: string;
+  input: UpdateSubtaskInput;
+}
+
+export interface ReorderSubtasksVariables {
+  todoId: string;
+  subtaskIds: string[];
+  // The parent todo's version the change was made against
+  version: number;
+}
+
+export interface RemoveSubtaskVariables {
+  todoId: string;
+  subtaskId: string;
+  version: number;
+}
+
+export const subtaskMutationKeys = {
+  add: [...todoKeys.all, "subtasks", "add"] as const,
+  update: [...todoKeys.all, "subtasks", "update"] as const,
+  reorder: [...todoKeys.all, "subtasks", "reorder"] as const,
+  remove: [...todoKeys.all, "subtasks", "remove"] as const,
+};
+
+// Optimistically swap in a new checklist, letting the parent auto-complete like the server would
+const applySubtasks = (
+  queryClient: QueryClient,
+  todoId: string,
+  change: (subtasks: Subtask[]) => Subtask[],
+) =>
+  applyOptimistic(queryClient, todoId, (todos, index) =>
+    todos.map((todo, i) =>
+      i === index ? withSubtasks({ ...todo, version: todo.version + 1 }, change(sortSubtasks(todo.subtasks))) : todo,
+    ),
+  );
+
+const replaceTodo = (queryClient: QueryClient, updatedTodo: Todo) => {
+  updateTodoLists(queryClient, (todos) => todos.map((todo) => (todo.id === updatedTodo.id ? updatedTodo : todo)));
+};
+
+// The todo changed elsewhere: show the latest copy rather than the one the change was based on
+const revert = (queryClient: QueryClient, error: Error, context?: OptimisticContext) => {
+  if (isConflictError(error)) {
+    replaceTodo(queryClient, error.details.todo);
+  } else {
+    rollback(queryClient, context);
+  }
+};
+
+// Adding waits for the server so the new subtask gets its real id
+export function useAddSubtask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: subtaskMutationKeys.add,
+    mutationFn: async ({ todoId, input }: AddSubtaskVariables) => (await todoApi.addSubtask(todoId, input)).data,
+    onError: (error) => revert(queryClient, error),
+    onSuccess: (todo) => replaceTodo(queryClient, todo),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useUpdateSubtask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: subtaskMutationKeys.update,
+    mutationFn: async ({ todoId, subtaskId, input }: UpdateSubtaskVariables) =>
+      (await todoApi.updateSubtask(todoId, subtaskId, input)).data,
+    onMutate: ({ todoId, subtaskId, input }) =>
+      applySubtasks(queryClient, todoId, (subtasks) =>
+        subtasks.map((subtask) =>
+          subtask.id === subtaskId
+            ? { ...subtask, title: input.title ?? subtask.title, completed: input.completed ?? subtask.completed }
+            : subtask,
+        ),
+      ),
+    onError: (error, _variables, context) => revert(queryClient, error, context),
+    onSuccess: (todo) => replaceTodo(queryClient, todo),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useReorderSubtasks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: subtaskMutationKeys.reorder,
+    mutationFn: async ({ todoId, subtaskIds, version }: ReorderSubtasksVariables) =>
+      (await todoApi.reorderSubtasks(todoId, subtaskIds, version)).data,
+    onMutate: ({ todoId, subtaskIds }) =>
+      applySubtasks(queryClient, todoId, (subtasks) => reorderSubtaskList(subtasks, subtaskIds)),
+    onError: (error, _variables, context) => revert(queryClient, error, context),
+    onSuccess: (todo) => replaceTodo(queryClient, todo),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useRemoveSubtask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: subtaskMutationKeys.remove,
+    mutationFn: async ({ todoId, subtaskId, version }: RemoveSubtaskVariables) =>
+      (await todoApi.removeSubtask(todoId, subtaskId, version)).data,
+    onMutate: ({ todoId, subtaskId }) =>
+      applySubtasks(queryClient, todoId, (subtasks) => subtasks.filter((subtask) => subtask.id !== subtaskId)),
+    onError: (error, _variables, context) => revert(queryClient, error, context),
+    onSuccess: (todo) => replaceTodo(queryClient, todo),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+import { offlineTodoApi } from "@/services/todoApi";
+
+const subscribe = (listener: () => void) => offlineTodoApi?.subscribe(listener) ?? (() => {});
+const getSnapshot = () => offlineTodoApi?.getStatus() ?? null;
+
+// Connectivity and outbox state of the offline layer; null when there is none (the mock backend)
+export function useSyncStatus() {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export const ONLINE_ONLY_HINT = "Available once you're back online and your changes have synced";
+
+// Only creates, edits and deletes of single todos can wait in the outbox. Everything else needs
+// the server with nothing queued ahead of it, so the UI switches it off meanwhile.
+export function useOnlineActionsEnabled() {
+  const status = useSyncStatus();
+  return !status || (status.isOnline && status.pendingCount === 0);
+}
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { todoApi } from "@/services/todoApi";
+import { CreateTagInput, UpdateTagInput } from "@/types/todo";
+import { invalidateWhenIdle, todoKeys } from "./use-todos";
+
+export interface UpdateTagVariables {
+  id: string;
+  input: UpdateTagInput;
+}
+
+export interface MergeTagsVariables {
+  sourceIds: string[];
+  targetId: string;
+}
+
+// Tag mutations can rename or strip tags on todos, so they live under the todo keys
+// and refetch everything once settled
+export const tagMutationKeys = {
+  create: [...todoKeys.tags(), "create"] as const,
+  update: [...todoKeys.tags(), "update"] as const,
+  merge: [...todoKeys.tags(), "merge"] as const,
+  delete: [...todoKeys.tags(), "delete"] as const,
+};
+
+export function useTags() {
+  return useQuery({
+    queryKey: todoKeys.tags(),
+    queryFn: async () => (await todoApi.getTags()).data,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: tagMutationKeys.create,
+    mutationFn: async (input: CreateTagInput) => (await todoApi.createTag(input)).data,
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useUpdateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: tagMutationKeys.update,
+    mutationFn: async ({ id, input }: UpdateTagVariables) => (await todoApi.updateTag(id, input)).data,
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useMergeTags() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: tagMutationKeys.merge,
+    mutationFn: async ({ sourceIds, targetId }: MergeTagsVariables) =>
+      (await todoApi.mergeTags(sourceIds, targetId)).data,
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: tagMutationKeys.delete,
+    mutationFn: async (id: string) => {
+      await todoApi.deleteTag(id);
+      return id;
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { todoChanges } from "@/services/changeBroadcast";
+import { offlineTodoApi } from "@/services/todoApi";
+import { Todo } from "@/types/todo";
+import { todoKeys, updateTodoLists } from "@/hooks/use-todos";
+
+// Changes can arrive out of order, so a cached todo only gives way to the same or a newer version
+const mergeTodos = (todos: Todo[], incoming: Todo[]) => {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]));
+  incoming.forEach((todo) => {
+    const cached = byId.get(todo.id);
+    if (!cached || cached.version <= todo.version) byId.set(todo.id, todo);
+  });
+  return [...byId.values()];
+};
+
+// Applies the todo changes other tabs broadcast straight to this tab's cached lists, reloads
+// after their tag, project and trash changes, and reloads once changes queued offline have been replayed
+export function useTodoSync() {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      todoChanges.subscribe((change) => {
+        if (change.type === "tagsChanged" || change.type === "projectsChanged") {
+          queryClient.invalidateQueries({
+            queryKey: change.type === "tagsChanged" ? todoKeys.tags() : todoKeys.projects(),
+          });
+          // Renames, merges and deletes rewrite todos too; mutations in flight refetch when they settle
+          if (queryClient.isMutating({ mutationKey: todoKeys.all }) === 0) {
+            queryClient.invalidateQueries({ queryKey: todoKeys.all });
+          }
+          return;
+        }
+
+        if (change.type === "trashChanged") {
+          queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
+          return;
+        }
+
+        // Deleted and restored todos move in or out of the trash as well
+        if (change.type !== "updated") {
+          queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
+        }
+
+        if (change.type === "deleted") {
+          const ids = new Set(change.ids);
+          updateTodoLists(queryClient, (todos) => todos.filter((todo) => !ids.has(todo.id)));
+          return;
+        }
+
+        let spawnedOccurrence = false;
+        updateTodoLists(queryClient, (todos) => {
+          const knownIds = new Set(todos.map((todo) => todo.id));
+          spawnedOccurrence ||= change.todos.some(
+            (todo) => todo.nextOccurrenceId && !knownIds.has(todo.nextOccurrenceId),
+          );
+          return mergeTodos(todos, change.todos);
+        });
+        // Completing a recurring todo created an occurrence the change doesn't carry
+        if (spawnedOccurrence) {
+          queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        }
+      }),
+    [queryClient],
+  );
+
+  // Replayed creates come back under new ids, so the server's copy replaces the local one. Mutations
+  // still in flight refetch when they settle; refetching now would clobber their optimistic state.
+  useEffect(() => {
+    if (!offlineTodoApi) return;
+    let wasSyncing = offlineTodoApi.getStatus().isSyncing;
+    return offlineTodoApi.subscribe((status) => {
+      if (wasSyncing && !status.isSyncing && queryClient.isMutating({ mutationKey: todoKeys.all }) === 0) {
+        queryClient.invalidateQueries({ queryKey: todoKeys.all });
+      }
+      wasSyncing = status.isSyncing;
+    });
+  }, [queryClient]);
+}
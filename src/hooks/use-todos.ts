@@ -0,0 +1,416 @@
+import {
+  keepPreviousData,
+  QueryClient,
+  useMutation,
+  useMutationState,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { todoApi } from "@/services/todoApi";
+import {
+  BatchMode,
+  BatchOperation,
+  BulkUpdateTodosInput,
+  CreateTodoInput,
+  Todo,
+  TodoSort,
+  UpdateTodoInput,
+} from "@/types/todo";
+import { isConflictError } from "@/lib/conflicts";
+import { reorderByRank } from "@/lib/ranking";
+import { DEFAULT_TODO_SORT, sortTodos } from "@/lib/sorting";
+import { applyTodoUpdate } from "@/lib/todoUpdates";
+import { applyTagChanges } from "@/lib/tags";
+
+export interface UpdateTodoVariables {
+  id: string;
+  input: UpdateTodoInput;
+}
+
+export interface ReorderTodosVariables {
+  ids: string[];
+  afterId: string | null;
+}
+
+export interface BulkUpdateTodosVariables {
+  ids: string[];
+  input: BulkUpdateTodosInput;
+}
+
+export interface BatchTodosVariables {
+  operations: BatchOperation[];
+  mode?: BatchMode;
+}
+
+export const todoKeys = {
+  all: ["todos"] as const,
+  lists: () => [...todoKeys.all, "list"] as const,
+  // One cached list per sort order in use
+  list: (sort: TodoSort) => [...todoKeys.lists(), sort] as const,
+  trash: () => [...todoKeys.all, "trash"] as const,
+  tags: () => [...todoKeys.all, "tags"] as const,
+  projects: () => [...todoKeys.all, "projects"] as const,
+};
+
+export const todoMutationKeys = {
+  create: [...todoKeys.all, "create"] as const,
+  update: [...todoKeys.all, "update"] as const,
+  delete: [...todoKeys.all, "delete"] as const,
+  reorder: [...todoKeys.all, "reorder"] as const,
+  bulkUpdate: [...todoKeys.all, "bulk-update"] as const,
+  bulkDelete: [...todoKeys.all, "bulk-delete"] as const,
+  batch: [...todoKeys.all, "batch"] as const,
+  restore: [...todoKeys.all, "restore"] as const,
+  purge: [...todoKeys.all, "purge"] as const,
+};
+
+// How long fetched todos count as fresh, and how often to refetch while the tab is visible
+const STALE_TIME = 30 * 1000;
+const REFETCH_INTERVAL = 60 * 1000;
+
+// Applies a change to every cached list, re-sorting each by the order in its query key
+export const updateTodoLists = (queryClient: QueryClient, update: (todos: Todo[]) => Todo[]) => {
+  queryClient.getQueriesData<Todo[]>({ queryKey: todoKeys.lists() }).forEach(([queryKey, todos]) => {
+    if (todos) {
+      queryClient.setQueryData<Todo[]>(queryKey, sortTodos(update(todos), queryKey[2] as TodoSort));
+    }
+  });
+};
+
+// Every list holds the same todos, so any cached one will do
+const getCachedTodos = (queryClient: QueryClient) =>
+  queryClient.getQueriesData<Todo[]>({ queryKey: todoKeys.lists() }).find(([, todos]) => todos)?.[1] ?? [];
+
+// Snapshot kept by optimistic mutations so a failure can put the prior todo back
+export interface OptimisticContext {
+  previousTodo?: Todo;
+}
+
+// Stop in-flight refetches from overwriting the optimistic change, then apply it
+export const applyOptimistic = async (
+  queryClient: QueryClient,
+  id: string,
+  update: (todos: Todo[], index: number) => Todo[],
+): Promise<OptimisticContext> => {
+  await queryClient.cancelQueries({ queryKey: todoKeys.lists() });
+
+  const previousTodo = getCachedTodos(queryClient).find((todo) => todo.id === id);
+  if (!previousTodo) return {};
+
+  updateTodoLists(queryClient, (todos) => {
+    const index = todos.findIndex((todo) => todo.id === id);
+    return index === -1 ? todos : update(todos, index);
+  });
+  return { previousTodo };
+};
+
+// Restore only the affected todo so other in-flight optimistic changes survive;
+// re-sorting puts it back in place
+export const rollback = (queryClient: QueryClient, context?: OptimisticContext) => {
+  const previousTodo = context?.previousTodo;
+  if (!previousTodo) return;
+
+  updateTodoLists(queryClient, (todos) => [...todos.filter((todo) => todo.id !== previousTodo.id), previousTodo]);
+};
+
+// Snapshot of every todo touched by a bulk mutation
+interface BulkOptimisticContext {
+  previousTodos: Todo[];
+}
+
+// Like applyOptimistic for several todos; `update` returns null to drop a todo from the lists
+const applyBulkOptimistic = async (
+  queryClient: QueryClient,
+  ids: string[],
+  update: (todo: Todo) => Todo | null,
+): Promise<BulkOptimisticContext> => {
+  await queryClient.cancelQueries({ queryKey: todoKeys.lists() });
+
+  const previousTodos = getCachedTodos(queryClient).filter((todo) => ids.includes(todo.id));
+  updateTodoLists(queryClient, (todos) =>
+    todos.flatMap((todo) => (ids.includes(todo.id) ? update(todo) ?? [] : [todo])),
+  );
+  return { previousTodos };
+};
+
+const rollbackBulk = (queryClient: QueryClient, context?: BulkOptimisticContext) => {
+  if (!context) return;
+
+  const previousIds = new Set(context.previousTodos.map((todo) => todo.id));
+  updateTodoLists(queryClient, (todos) => [
+    ...todos.filter((todo) => !previousIds.has(todo.id)),
+    ...context.previousTodos,
+  ]);
+};
+
+// Client-side preview of a bulk update, matching what the service will store
+const applyBulkUpdate = (todo: Todo, { addTags, removeTags, ...changes }: BulkUpdateTodosInput): Todo =>
+  applyTodoUpdate(todo, { ...changes, tags: applyTagChanges(todo.tags, addTags, removeTags) });
+
+// Refetch once the last todo mutation settles; refetching earlier would clobber
+// optimistic state of mutations still in flight
+export const invalidateWhenIdle = (queryClient: QueryClient) => {
+  if (queryClient.isMutating({ mutationKey: todoKeys.all }) <= 1) {
+    return queryClient.invalidateQueries({ queryKey: todoKeys.all });
+  }
+};
+
+// Sorted by the service, so a paged backend can do the sorting
+export function useTodos(sort: TodoSort = DEFAULT_TODO_SORT) {
+  return useQuery({
+    queryKey: todoKeys.list(sort),
+    queryFn: async () => (await todoApi.getAllTodos(sort)).data,
+    // Keep showing the current list while another order loads
+    placeholderData: keepPreviousData,
+    staleTime: STALE_TIME,
+    refetchInterval: REFETCH_INTERVAL,
+    // Failures are surfaced to the user instead of being hidden behind silent retries
+    retry: false,
+  });
+}
+
+export function useCreateTodo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.create,
+    mutationFn: async (input: CreateTodoInput) => (await todoApi.createTodo(input)).data,
+    onSuccess: (todo) => {
+      updateTodoLists(queryClient, (todos) => [todo, ...todos]);
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useUpdateTodo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.update,
+    mutationFn: async ({ id, input }: UpdateTodoVariables) => (await todoApi.updateTodo(id, input)).data,
+    onMutate: ({ id, input }) =>
+      applyOptimistic(queryClient, id, (todos, index) =>
+        todos.map((todo, i) => (i === index ? applyTodoUpdate(todo, input) : todo)),
+      ),
+    onError: (error, _variables, context) => {
+      // The todo changed elsewhere: show the latest copy rather than the one the update was based on
+      if (isConflictError(error)) {
+        const latest = error.details.todo;
+        updateTodoLists(queryClient, (todos) => todos.map((todo) => (todo.id === latest.id ? latest : todo)));
+      } else {
+        rollback(queryClient, context);
+      }
+    },
+    onSuccess: (updatedTodo) => {
+      updateTodoLists(queryClient, (todos) =>
+        todos.map((todo) => (todo.id === updatedTodo.id ? updatedTodo : todo)),
+      );
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useDeleteTodo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.delete,
+    mutationFn: async (id: string) => {
+      await todoApi.deleteTodo(id);
+      return id;
+    },
+    onMutate: (id) => applyOptimistic(queryClient, id, (todos) => todos.filter((todo) => todo.id !== id)),
+    onError: (_error, _id, context) => rollback(queryClient, context),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+// Re-ranks the moved todos in the cache right away (a move is a new version, like the service
+// saves it); a failure restores only their previous ranks and versions
+export function useReorderTodos() {
+  const queryClient = useQueryClient();
+
+  const applyPositions = (positions: Map<string, Pick<Todo, "rank" | "version">>) =>
+    updateTodoLists(queryClient, (todos) =>
+      todos.map((todo) => (positions.has(todo.id) ? { ...todo, ...positions.get(todo.id) } : todo)),
+    );
+
+  const positionsOf = (todos: Todo[]) =>
+    new Map(todos.map(({ id, rank, version }) => [id, { rank, version }]));
+
+  return useMutation({
+    mutationKey: todoMutationKeys.reorder,
+    mutationFn: async ({ ids, afterId }: ReorderTodosVariables) => (await todoApi.reorderTodos(ids, afterId)).data,
+    onMutate: async ({ ids, afterId }) => {
+      await queryClient.cancelQueries({ queryKey: todoKeys.lists() });
+
+      const todos = getCachedTodos(queryClient);
+      const reranked = reorderByRank(todos, ids, afterId).map((todo) => ({ ...todo, version: todo.version + 1 }));
+      const previousPositions = positionsOf(todos.filter((todo) => reranked.some((moved) => moved.id === todo.id)));
+      applyPositions(positionsOf(reranked));
+      return { previousPositions };
+    },
+    onError: (_error, _variables, context) => context && applyPositions(context.previousPositions),
+    onSuccess: (reranked) => {
+      const byId = new Map(reranked.map((todo) => [todo.id, todo]));
+      updateTodoLists(queryClient, (todos) => todos.map((todo) => byId.get(todo.id) ?? todo));
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useBulkUpdateTodos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.bulkUpdate,
+    mutationFn: async ({ ids, input }: BulkUpdateTodosVariables) => (await todoApi.bulkUpdateTodos(ids, input)).data,
+    onMutate: ({ ids, input }) => applyBulkOptimistic(queryClient, ids, (todo) => applyBulkUpdate(todo, input)),
+    onError: (_error, _variables, context) => rollbackBulk(queryClient, context),
+    onSuccess: (updatedTodos) => {
+      const byId = new Map(updatedTodos.map((todo) => [todo.id, todo]));
+      updateTodoLists(queryClient, (todos) => todos.map((todo) => byId.get(todo.id) ?? todo));
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+// Moves several todos to the trash in one request
+export function useBulkDeleteTodos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.bulkDelete,
+    mutationFn: async (ids: string[]) => {
+      await todoApi.bulkDeleteTodos(ids);
+      return ids;
+    },
+    onMutate: (ids) => applyBulkOptimistic(queryClient, ids, () => null),
+    onError: (_error, _ids, context) => rollbackBulk(queryClient, context),
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+// Applies to the cache exactly the operations that succeeded; a failed atomic batch changes nothing
+export function useBatchTodos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.batch,
+    mutationFn: async ({ operations, mode }: BatchTodosVariables) => (await todoApi.batch(operations, mode)).data,
+    onSuccess: (results, { operations }) => {
+      updateTodoLists(queryClient, (todos) =>
+        results.reduce((next, result, index) => {
+          if (!result.ok) return next;
+          const operation = operations[index];
+          if (operation.type === "delete") return next.filter((todo) => todo.id !== operation.id);
+          return [...next.filter((todo) => todo.id !== result.data.id), result.data];
+        }, todos),
+      );
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useTrashedTodos() {
+  return useQuery({
+    queryKey: todoKeys.trash(),
+    queryFn: async () => (await todoApi.getTrashedTodos()).data,
+    staleTime: STALE_TIME,
+    retry: false,
+  });
+}
+
+// Moves todos out of the trash with their original ids and timestamps (also backs "Undo")
+export function useRestoreTodos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.restore,
+    mutationFn: async (ids: string[]) => (await todoApi.restoreTodos(ids)).data,
+    onSuccess: (restored) => {
+      const restoredIds = new Set(restored.map((todo) => todo.id));
+      queryClient.setQueryData<Todo[]>(todoKeys.trash(), (todos) =>
+        todos?.filter((todo) => !restoredIds.has(todo.id)),
+      );
+      updateTodoLists(queryClient, (todos) => [...todos.filter((todo) => !restoredIds.has(todo.id)), ...restored]);
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function usePurgeTodo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: todoMutationKeys.purge,
+    mutationFn: async (id: string) => {
+      await todoApi.purgeTodo(id);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<Todo[]>(todoKeys.trash(), (todos) => todos?.filter((todo) => todo.id !== id));
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+export function useEmptyTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: [...todoMutationKeys.purge, "all"],
+    mutationFn: async () => {
+      await todoApi.emptyTrash();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<Todo[]>(todoKeys.trash(), []);
+    },
+    onSettled: () => invalidateWhenIdle(queryClient),
+  });
+}
+
+// Ids of todos with a mutation in flight, so only those items show as busy
+export function usePendingTodoIds() {
+  const updating = useMutationState({
+    filters: { mutationKey: todoMutationKeys.update, status: "pending" },
+    select: (mutation) => (mutation.state.variables as UpdateTodoVariables).id,
+  });
+  const deleting = useMutationState({
+    filters: { mutationKey: todoMutationKeys.delete, status: "pending" },
+    select: (mutation) => mutation.state.variables as string,
+  });
+  const bulkUpdating = useMutationState({
+    filters: { mutationKey: todoMutationKeys.bulkUpdate, status: "pending" },
+    select: (mutation) => (mutation.state.variables as BulkUpdateTodosVariables).ids,
+  });
+  const bulkDeleting = useMutationState({
+    filters: { mutationKey: todoMutationKeys.bulkDelete, status: "pending" },
+    select: (mutation) => mutation.state.variables as string[],
+  });
+  const batching = useMutationState({
+    filters: { mutationKey: todoMutationKeys.batch, status: "pending" },
+    select: (mutation) =>
+      (mutation.state.variables as BatchTodosVariables).operations.flatMap((operation) =>
+        operation.type === "create" ? [] : [operation.id],
+      ),
+  });
+  const restoring = useMutationState({
+    filters: { mutationKey: todoMutationKeys.restore, status: "pending" },
+    select: (mutation) => mutation.state.variables as string[],
+  });
+  const purging = useMutationState({
+    filters: { mutationKey: todoMutationKeys.purge, status: "pending", exact: true },
+    select: (mutation) => mutation.state.variables as string,
+  });
+
+  return new Set([
+    ...updating,
+    ...deleting,
+    ...bulkUpdating.flat(),
+    ...bulkDeleting.flat(),
+    ...batching.flat(),
+    ...restoring.flat(),
+    ...purging,
+  ]);
+}
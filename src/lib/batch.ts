@@ -0,0 +1,14 @@
+// Helpers for reading the per-operation results of a batch
+
+import { BatchResult } from "@/types/todo";
+
+export type BatchFailure = Extract<BatchResult, { ok: false }>;
+
+export const isBatchFailure = (result: BatchResult): result is BatchFailure => !result.ok;
+
+// Splits the items a batch was built from by outcome; results are in the same order as the items
+export const splitBatchResults = <T,>(items: T[], results: BatchResult[]) => ({
+  succeeded: items.filter((_, index) => results[index]?.ok),
+  failed: items.filter((_, index) => !results[index]?.ok),
+  firstError: results.find(isBatchFailure)?.error,
+});
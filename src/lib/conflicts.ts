@@ -0,0 +1,77 @@
+// Version conflicts: comparing a rejected update with the todo it collided with and merging the two
+
+import { Todo, UpdateTodoInput } from "@/types/todo";
+import { ApiError } from "@/services/apiError";
+
+export type ConflictField = Exclude<keyof UpdateTodoInput, "version">;
+
+export type ConflictChoice = "mine" | "theirs";
+
+export const CONFLICT_FIELD_LABELS: Record<ConflictField, string> = {
+  title: "Title",
+  description: "Description",
+  completed: "Status",
+  priority: "Priority",
+  projectId: "Project",
+  tags: "Tags",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  completeWithSubtasks: "Auto-complete",
+  recurrence: "Repeat",
+};
+
+// A rejected update along with the todo it was based on and the one it collided with
+export interface TodoConflict {
+  base: Todo;
+  mine: UpdateTodoInput;
+  theirs: Todo;
+}
+
+export interface ConflictRow {
+  field: ConflictField;
+  mine: unknown;
+  theirs: unknown;
+  // Whether the rejected update changed the field, as opposed to re-sending what it was based on
+  changedByMe: boolean;
+}
+
+export const isConflictError = (error: unknown): error is ApiError & { details: { todo: Todo } } =>
+  error instanceof ApiError && error.code === "CONFLICT" && Boolean(error.details?.todo);
+
+// null and undefined both mean "no value", and dates compare by time
+const normalize = (value: unknown) => (value instanceof Date ? value.getTime() : value ?? null);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Fields the rejected update sets differently from the latest todo. Each defaults to the side
+// that actually changed it, so fields only the other person edited keep their edit.
+export const getConflictRows = ({ base, mine, theirs }: TodoConflict): ConflictRow[] =>
+  (Object.keys(mine) as (keyof UpdateTodoInput)[])
+    .filter((field): field is ConflictField => field !== "version" && mine[field] !== undefined)
+    .filter((field) => !isSameValue(mine[field], theirs[field]))
+    .map((field) => ({
+      field,
+      mine: mine[field],
+      theirs: theirs[field],
+      changedByMe: !isSameValue(mine[field], base[field]),
+    }));
+
+export const defaultConflictChoices = (rows: ConflictRow[]) =>
+  Object.fromEntries(rows.map((row) => [row.field, row.changedByMe ? "mine" : "theirs"])) as Partial<
+    Record<ConflictField, ConflictChoice>
+  >;
+
+// The update to retry against the latest version, or null when every field keeps the latest value
+export const mergeConflict = (
+  { mine, theirs }: TodoConflict,
+  rows: ConflictRow[],
+  choices: Partial<Record<ConflictField, ConflictChoice>>,
+): UpdateTodoInput | null => {
+  const kept = rows.filter((row) => choices[row.field] === "mine");
+  if (kept.length === 0) return null;
+
+  return {
+    ...Object.fromEntries(kept.map((row) => [row.field, mine[row.field]])),
+    version: theirs.version,
+  };
+};
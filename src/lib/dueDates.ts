@@ -0,0 +1,53 @@
+// Due date helpers: overdue/today/upcoming states and relative labels
+
+import { differenceInCalendarDays, endOfDay, format, setHours, setMinutes } from "date-fns";
+import { Todo } from "@/types/todo";
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+type DueFields = Pick<Todo, "dueDate" | "dueTime" | "completed">;
+
+// Moment a todo becomes overdue: its due time, or the end of the due day
+export const getDueMoment = (todo: Pick<Todo, "dueDate" | "dueTime">): Date | null => {
+  if (!todo.dueDate) return null;
+
+  const day = new Date(todo.dueDate);
+  if (!todo.dueTime) return endOfDay(day);
+
+  const [hours, minutes] = todo.dueTime.split(":").map(Number);
+  return setMinutes(setHours(day, hours), minutes);
+};
+
+// Completed todos have no due status; they are neither overdue nor upcoming
+export const getDueStatus = (todo: DueFields, now = new Date()): DueStatus | null => {
+  const dueMoment = getDueMoment(todo);
+  if (!dueMoment || todo.completed) return null;
+
+  if (dueMoment.getTime() < now.getTime()) return "overdue";
+  return differenceInCalendarDays(dueMoment, now) === 0 ? "today" : "upcoming";
+};
+
+export const isDueToday = (todo: DueFields, now = new Date()) =>
+  Boolean(todo.dueDate) && differenceInCalendarDays(new Date(todo.dueDate), now) === 0;
+
+const pluralizeDays = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+// "Due tomorrow", "Due in 3 days", "3 days overdue", "Overdue since 9:00 AM"...
+export const formatDueLabel = (todo: DueFields, now = new Date()): string | null => {
+  const dueMoment = getDueMoment(todo);
+  if (!dueMoment) return null;
+
+  const days = differenceInCalendarDays(dueMoment, now);
+  const time = todo.dueTime ? format(dueMoment, "p") : null;
+  const atTime = time ? ` at ${time}` : "";
+
+  if (getDueStatus(todo, now) === "overdue") {
+    return days === 0 ? `Overdue since ${time}` : `${pluralizeDays(-days)} overdue`;
+  }
+
+  if (days === 0) return `Due today${atTime}`;
+  if (days === 1) return `Due tomorrow${atTime}`;
+  if (days === -1) return `Was due yesterday${atTime}`;
+  if (days > 1 && days < 7) return `Due in ${pluralizeDays(days)}`;
+  return `${days < 0 ? "Was due" : "Due"} ${format(dueMoment, "MMM d")}${atTime}`;
+};
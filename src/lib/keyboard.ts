@@ -0,0 +1,16 @@
+// Platform-aware keyboard helpers
+
+export const isMacPlatform = () =>
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad|iPod/.test(navigator.userAgent);
+
+// Label of the primary modifier: ⌘ on Apple platforms, Ctrl elsewhere
+export const modKeyLabel = () => (isMacPlatform() ? "⌘" : "Ctrl");
+
+// Cmd on Apple platforms, Ctrl elsewhere
+export const isModKey = (event: KeyboardEvent | React.KeyboardEvent) =>
+  isMacPlatform() ? event.metaKey : event.ctrlKey;
+
+// Typing in a field should never trigger app shortcuts
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
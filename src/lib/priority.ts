@@ -0,0 +1,58 @@
+// Display metadata and ordering for todo priorities
+
+import { Todo, TodoPriority } from "@/types/todo";
+
+interface PriorityMeta {
+  label: string;
+  // Higher rank sorts first
+  rank: number;
+  textClassName: string;
+  badgeClassName: string;
+  accentClassName: string;
+}
+
+export const PRIORITY_META: Record<TodoPriority, PriorityMeta> = {
+  [TodoPriority.URGENT]: {
+    label: "Urgent",
+    rank: 4,
+    textClassName: "text-destructive",
+    badgeClassName: "bg-destructive/10 text-destructive border-destructive/30",
+    accentClassName: "border-l-destructive",
+  },
+  [TodoPriority.HIGH]: {
+    label: "High",
+    rank: 3,
+    textClassName: "text-orange-600",
+    badgeClassName: "bg-orange-500/10 text-orange-600 border-orange-500/30",
+    accentClassName: "border-l-orange-500",
+  },
+  [TodoPriority.MEDIUM]: {
+    label: "Medium",
+    rank: 2,
+    textClassName: "text-warning",
+    badgeClassName: "bg-warning/10 text-warning border-warning/30",
+    accentClassName: "border-l-warning",
+  },
+  [TodoPriority.LOW]: {
+    label: "Low",
+    rank: 1,
+    textClassName: "text-primary",
+    badgeClassName: "bg-primary/10 text-primary border-primary/30",
+    accentClassName: "border-l-primary/60",
+  },
+  [TodoPriority.NONE]: {
+    label: "No priority",
+    rank: 0,
+    textClassName: "text-muted-foreground",
+    badgeClassName: "bg-muted text-muted-foreground border-border",
+    accentClassName: "border-l-transparent",
+  },
+};
+
+// Most important first, which is also the order selectors list them in
+export const PRIORITIES = Object.values(TodoPriority).sort(
+  (a, b) => PRIORITY_META[b].rank - PRIORITY_META[a].rank,
+);
+
+export const comparePriority = (a: Todo, b: Todo) =>
+  PRIORITY_META[b.priority ?? TodoPriority.NONE].rank - PRIORITY_META[a.priority ?? TodoPriority.NONE].rank;
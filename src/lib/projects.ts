@@ -0,0 +1,39 @@
+// Project constants, icons and the virtual Inbox
+
+import { Briefcase, BookOpen, Code, Folder, Heart, Home, LucideIcon, Rocket, ShoppingCart, Star } from "lucide-react";
+import { ProjectIcon, TagColor, Todo } from "@/types/todo";
+
+// Route id of the Inbox, which holds every todo without a project
+export const INBOX_PROJECT_ID = "inbox";
+
+export const PROJECT_NAME_MAX_LENGTH = 50;
+
+export const DEFAULT_PROJECT_COLOR: TagColor = "gray";
+
+export const DEFAULT_PROJECT_ICON: ProjectIcon = "folder";
+
+export const PROJECT_ICONS: Record<ProjectIcon, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  home: Home,
+  book: BookOpen,
+  code: Code,
+  heart: Heart,
+  star: Star,
+  rocket: Rocket,
+  cart: ShoppingCart,
+};
+
+export const PROJECT_ICON_NAMES = Object.keys(PROJECT_ICONS) as ProjectIcon[];
+
+export const isInProject = (todo: Pick<Todo, "projectId">, projectId: string) =>
+  (todo.projectId ?? INBOX_PROJECT_ID) === projectId;
+
+export const projectPath = (projectId: string) =>
+  projectId === INBOX_PROJECT_ID ? "/" : `/projects/${encodeURIComponent(projectId)}`;
+
+// DOM id of a todo card, used as the URL hash when jumping to it
+export const todoElementId = (id: string) => `todo-${id}`;
+
+export const todoPath = (todo: Pick<Todo, "id" | "projectId">) =>
+  `${projectPath(todo.projectId ?? INBOX_PROJECT_ID)}#${todoElementId(todo.id)}`;
@@ -0,0 +1,42 @@
+// Fractional ranks for manual todo ordering: a move only rewrites the moved todos' ranks
+
+import { Todo } from "@/types/todo";
+
+// Gap left between neighbours when ranks extend past either end or get renumbered
+export const RANK_STEP = 1024;
+
+// New todos rank ahead of everything created before them, so the default order is newest first
+export const rankForNewTodo = (createdAt: Date) => -new Date(createdAt).getTime();
+
+export const compareRank = (a: Pick<Todo, "rank">, b: Pick<Todo, "rank">) => a.rank - b.rank;
+
+// `count` increasing ranks strictly between two neighbours (either may be missing at the ends of
+// the list), or null once floating point precision runs out between them
+export const ranksBetween = (before: number | undefined, after: number | undefined, count: number) => {
+  const lower = before ?? (after === undefined ? 0 : after - (count + 1) * RANK_STEP);
+  const upper = after ?? lower + (count + 1) * RANK_STEP;
+  const step = (upper - lower) / (count + 1);
+  const ranks = Array.from({ length: count }, (_, i) => lower + step * (i + 1));
+
+  const bounded = [lower, ...ranks, upper];
+  return bounded.every((rank, i) => i === 0 || rank > bounded[i - 1]) ? ranks : null;
+};
+
+// New ranks placing `ids`, in that order, right after `afterId` (or first when it is null).
+// Returns only the todos whose rank changed; the whole list is renumbered only when the gap is exhausted.
+export const reorderByRank = (todos: Todo[], ids: string[], afterId: string | null): Todo[] => {
+  const sorted = [...todos].sort(compareRank);
+  const moving = ids.map(id => sorted.find(todo => todo.id === id)).filter(Boolean);
+  const rest = sorted.filter(todo => !ids.includes(todo.id));
+  const afterIndex = afterId === null ? -1 : rest.findIndex(todo => todo.id === afterId);
+
+  const ranks = ranksBetween(rest[afterIndex]?.rank, rest[afterIndex + 1]?.rank, moving.length);
+  if (ranks) {
+    return moving.map((todo, i) => ({ ...todo, rank: ranks[i] }));
+  }
+
+  const reordered = [...rest.slice(0, afterIndex + 1), ...moving, ...rest.slice(afterIndex + 1)];
+  return reordered
+    .map((todo, i) => ({ ...todo, rank: (i + 1) * RANK_STEP }))
+    .filter((todo, i) => todo.rank !== reordered[i].rank);
+};
@@ -0,0 +1,37 @@
+// Recently run command palette commands, used to rank frequent actions first
+
+const STORAGE_KEY = 'do-dash-pro:recent-commands';
+
+export const RECENT_COMMANDS_LIMIT = 20;
+
+// Most recent first
+export const getRecentCommands = (): string[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : [];
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    // Ignore unavailable or corrupted storage
+    return [];
+  }
+};
+
+const saveRecentCommands = (ids: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // Persisting is best effort
+  }
+};
+
+export const recordRecentCommand = (id: string) => {
+  saveRecentCommands([id, ...getRecentCommands().filter(recent => recent !== id)].slice(0, RECENT_COMMANDS_LIMIT));
+};
+
+export const clearRecentCommands = () => saveRecentCommands([]);
+
+// Multiplier between 1 (never used) and 2 (just used) applied to the fuzzy match score
+export const getRecencyBoost = (recent: string[], id: string) => {
+  const index = recent.indexOf(id);
+  return index === -1 ? 1 : 2 - index / RECENT_COMMANDS_LIMIT;
+};
@@ -0,0 +1,159 @@
+// Recurrence rules: computing the next occurrence and describing schedules
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  format,
+  isBefore,
+  isLastDayOfMonth,
+  lastDayOfMonth,
+  setDate,
+  startOfDay,
+  startOfMonth,
+} from "date-fns";
+import { RecurrenceFrequency, RecurrenceRule, Todo } from "@/types/todo";
+
+export const RECURRENCE_INTERVAL_MAX = 365;
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  "daily",
+  "weekdays",
+  "weekly",
+  "monthly",
+  "yearly",
+  "afterCompletion",
+];
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekdays: "Every weekday",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+  afterCompletion: "After completion",
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ORDINALS = ["1st", "2nd", "3rd", "4th", "last"];
+
+// Longest gap we scan for a matching weekly day before giving up
+const MAX_WEEKLY_SCAN_DAYS = 7 * RECURRENCE_INTERVAL_MAX;
+
+const isWeekday = (date: Date) => date.getDay() !== 0 && date.getDay() !== 6;
+
+// 1-4 for the first four, 5 for the last of its weekday in the month
+const getNthWeekday = (date: Date) =>
+  addDays(date, 7) > lastDayOfMonth(date) ? 5 : Math.ceil(date.getDate() / 7);
+
+const nthWeekdayOfMonth = (month: Date, weekday: number, nth: number) => {
+  if (nth === 5) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+  const first = startOfMonth(month);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7);
+};
+
+// The day a dayOfMonth rule falls on. A date that a shorter month moved to its last day keeps the
+// rule's later day; any other date is the anchor itself.
+const getMonthlyDay = (rule: RecurrenceRule, date: Date) =>
+  rule.dayOfMonth > date.getDate() && isLastDayOfMonth(date) ? rule.dayOfMonth : date.getDate();
+
+// The rule with a monthly schedule's day pinned to the todo's due date, so the occurrences after a
+// shorter month return to it. Generated occurrences carry this rule on.
+export const anchorRecurrence = (todo: Pick<Todo, "recurrence" | "dueDate">): RecurrenceRule | undefined => {
+  const rule = todo.recurrence;
+  if (!rule || rule.frequency !== "monthly" || rule.monthlyMode === "nthWeekday") return rule;
+
+  const { dayOfMonth, ...unanchored } = rule;
+  if (!todo.dueDate) return unanchored;
+  return { ...unanchored, dayOfMonth: getMonthlyDay(rule, new Date(todo.dueDate)) };
+};
+
+// The scheduled date right after `from`
+const nextScheduledDate = (rule: RecurrenceRule, from: Date): Date => {
+  const interval = rule.interval;
+
+  switch (rule.frequency) {
+    case "daily":
+    case "afterCompletion":
+      return addDays(from, interval);
+    case "weekdays": {
+      let next = addDays(from, 1);
+      while (!isWeekday(next)) next = addDays(next, 1);
+      return next;
+    }
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+      for (let offset = 1; offset <= MAX_WEEKLY_SCAN_DAYS; offset++) {
+        const candidate = addDays(from, offset);
+        const weeksApart = differenceInCalendarWeeks(candidate, from);
+        if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) return candidate;
+      }
+      return addWeeks(from, interval);
+    }
+    case "monthly": {
+      const month = addMonths(startOfMonth(from), interval);
+      return rule.monthlyMode === "nthWeekday"
+        ? nthWeekdayOfMonth(month, from.getDay(), getNthWeekday(from))
+        : setDate(month, Math.min(rule.dayOfMonth ?? from.getDate(), lastDayOfMonth(month).getDate()));
+    }
+    case "yearly":
+      return addYears(from, interval);
+  }
+};
+
+// Due date of the occurrence after `todo`. Schedules count from the current due date (or the
+// completion day without one) and skip dates already in the past, so finishing an overdue chore
+// doesn't spawn another overdue copy; "after completion" always counts from the completion day.
+export const getNextOccurrenceDate = (
+  todo: Pick<Todo, "recurrence" | "dueDate">,
+  completedAt = new Date(),
+): Date | null => {
+  const rule = anchorRecurrence(todo);
+  if (!rule) return null;
+
+  const today = startOfDay(completedAt);
+  if (rule.frequency === "afterCompletion" || !todo.dueDate) {
+    return nextScheduledDate(rule, today);
+  }
+
+  let next = nextScheduledDate(rule, startOfDay(new Date(todo.dueDate)));
+  while (isBefore(next, today)) {
+    next = nextScheduledDate(rule, next);
+  }
+  return next;
+};
+
+const every = (interval: number, unit: string) => (interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`);
+
+// "Every weekday", "Every 2 weeks on Mon, Thu", "Monthly on the 3rd Tue"...
+export const describeRecurrence = (rule: RecurrenceRule, anchor?: Date): string => {
+  switch (rule.frequency) {
+    case "daily":
+      return every(rule.interval, "day");
+    case "weekdays":
+      return "Every weekday";
+    case "weekly": {
+      const days = rule.weekdays?.length
+        ? ` on ${[...rule.weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join(", ")}`
+        : "";
+      return `${every(rule.interval, "week")}${days}`;
+    }
+    case "monthly": {
+      if (!anchor) return every(rule.interval, "month");
+      const day = rule.monthlyMode === "nthWeekday"
+        ? `the ${ORDINALS[getNthWeekday(anchor) - 1]} ${WEEKDAY_LABELS[anchor.getDay()]}`
+        : `day ${getMonthlyDay(rule, anchor)}`;
+      return `${every(rule.interval, "month")} on ${day}`;
+    }
+    case "yearly":
+      return anchor ? `${every(rule.interval, "year")} on ${format(anchor, "MMM d")}` : every(rule.interval, "year");
+    case "afterCompletion":
+      return `${rule.interval} day${rule.interval === 1 ? "" : "s"} after completion`;
+  }
+};
@@ -0,0 +1,256 @@
+// Todo search: query parsing, fuzzy diacritic-insensitive matching and highlight ranges
+
+import { differenceInCalendarDays, isValid, parseISO } from "date-fns";
+import { Todo, TodoPriority } from "@/types/todo";
+import { getDueStatus } from "@/lib/dueDates";
+import { PRIORITY_META } from "@/lib/priority";
+
+// URL query parameter holding the search string
+export const SEARCH_PARAM = "q";
+
+export const SEARCH_OPERATORS = [
+  { example: "is:done", description: "Completed tasks (also is:open, is:overdue, is:recurring)" },
+  { example: "tag:work", description: "Tasks tagged #work" },
+  { example: "due:<today", description: "Due before today (also today, tomorrow, none, 2024-05-01)" },
+  { example: "priority:high", description: "High priority (also priority:>=medium)" },
+  { example: '"exact phrase"', description: "Match the words in order" },
+];
+
+type Comparator = "<" | "<=" | ">" | ">=" | "=";
+
+type Predicate = (todo: Todo, now: Date) => boolean;
+
+export interface SearchQuery {
+  // Normalized free-text terms; quoted phrases stay whole
+  terms: string[];
+  // Operator conditions, all of which must hold
+  predicates: Predicate[];
+}
+
+const DIACRITICS = /[\u0300-\u036f]/g;
+const TOKEN_PATTERN = /(\w+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+
+// Case- and accent-insensitive form used for every comparison ("Café" -> "cafe")
+export const normalizeSearchText = (text: string) =>
+  text.normalize("NFD").replace(DIACRITICS, "").toLowerCase();
+
+const compare = (difference: number, comparator: Comparator) => {
+  switch (comparator) {
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+    default:
+      return difference === 0;
+  }
+};
+
+const splitComparator = (value: string) => {
+  const [, comparator = "=", rest] = value.match(COMPARATOR_PATTERN);
+  return { comparator: comparator as Comparator, rest };
+};
+
+const resolveDay = (value: string, now: Date): Date | null => {
+  switch (value) {
+    case "today":
+      return now;
+    case "tomorrow":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    case "yesterday":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+    default: {
+      const date = parseISO(value);
+      return isValid(date) ? date : null;
+    }
+  }
+};
+
+const parseStatus = (value: string): Predicate | null => {
+  switch (value) {
+    case "done":
+    case "completed":
+      return (todo) => todo.completed;
+    case "open":
+    case "active":
+    case "todo":
+      return (todo) => !todo.completed;
+    case "overdue":
+      return (todo, now) => getDueStatus(todo, now) === "overdue";
+    case "recurring":
+      return (todo) => Boolean(todo.recurrence);
+    default:
+      return null;
+  }
+};
+
+const parseDue = (value: string): Predicate | null => {
+  if (value === "none") return (todo) => !todo.dueDate;
+  if (value === "any") return (todo) => Boolean(todo.dueDate);
+  if (value === "overdue") return parseStatus(value);
+
+  const { comparator, rest } = splitComparator(value);
+  // Unrecognized dates fall back to plain text
+  if (!resolveDay(rest, new Date())) return null;
+
+  return (todo, now) =>
+    Boolean(todo.dueDate) &&
+    compare(differenceInCalendarDays(new Date(todo.dueDate), resolveDay(rest, now)), comparator);
+};
+
+const parsePriority = (value: string): Predicate | null => {
+  const { comparator, rest } = splitComparator(value);
+  const priority = Object.values(TodoPriority).find(
+    (candidate) => candidate === rest || PRIORITY_META[candidate].label.toLowerCase() === rest,
+  );
+  if (!priority) return null;
+
+  const rank = PRIORITY_META[priority].rank;
+  return (todo) => compare(PRIORITY_META[todo.priority ?? TodoPriority.NONE].rank - rank, comparator);
+};
+
+const parseOperator = (key: string, value: string): Predicate | null => {
+  switch (key) {
+    case "is":
+      return parseStatus(value);
+    case "tag":
+      return (todo) => todo.tags.some((tag) => normalizeSearchText(tag) === value);
+    case "due":
+      return parseDue(value);
+    case "priority":
+    case "p":
+      return parsePriority(value);
+    default:
+      return null;
+  }
+};
+
+// Unknown operators and invalid operator values are searched as plain text
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const terms: string[] = [];
+  const predicates: Predicate[] = [];
+
+  for (const [token, key, value, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (key !== undefined) {
+      const predicate = parseOperator(key.toLowerCase(), normalizeSearchText(value.replace(/"/g, "")));
+      if (predicate) {
+        predicates.push(predicate);
+      } else {
+        terms.push(normalizeSearchText(token));
+      }
+    } else {
+      const term = normalizeSearchText((phrase ?? word).trim());
+      if (term) terms.push(term);
+    }
+  }
+
+  return { terms, predicates };
+};
+
+export const isEmptySearch = (search: SearchQuery) =>
+  search.terms.length === 0 && search.predicates.length === 0;
+
+// Longer terms tolerate more typos; short ones must match exactly
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Edit distance counting swapped neighbours as one typo, giving up once it exceeds `limit`
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const isFuzzyWordMatch = (term: string, word: string) => {
+  const typos = maxTypos(term);
+  return typos > 0 && !term.includes(" ") && editDistance(term, word, typos) <= typos;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const matchesTerm = (term: string, text: string) =>
+  text.includes(term) || (text.match(WORD_PATTERN) ?? []).some((word) => isFuzzyWordMatch(term, word));
+
+const searchableText = (todo: Todo) =>
+  normalizeSearchText(
+    [todo.title, todo.description ?? "", ...todo.tags, ...todo.subtasks.map((subtask) => subtask.title)].join("\n"),
+  );
+
+// Every term must appear somewhere in the title, description, tags or subtasks
+export const matchesSearch = (todo: Todo, search: SearchQuery, now = new Date()) => {
+  if (!search.predicates.every((predicate) => predicate(todo, now))) return false;
+  if (search.terms.length === 0) return true;
+
+  const text = searchableText(todo);
+  return search.terms.every((term) => matchesTerm(term, text));
+};
+
+export type HighlightRange = [start: number, end: number];
+
+// Normalized text plus, for each of its characters, the index of the original character
+const normalizeWithOffsets = (text: string) => {
+  let normalized = "";
+  const offsets: number[] = [];
+  Array.from(text).reduce((index, char) => {
+    const folded = normalizeSearchText(char);
+    normalized += folded;
+    for (let i = 0; i < folded.length; i++) offsets.push(index);
+    return index + char.length;
+  }, 0);
+  offsets.push(text.length);
+  return { normalized, offsets };
+};
+
+// Ranges of `text` matched by the terms, sorted and merged, in original-text offsets
+export const getHighlightRanges = (text: string, terms: string[]): HighlightRange[] => {
+  if (!text || terms.length === 0) return [];
+
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const ranges: HighlightRange[] = [];
+
+  for (const term of terms) {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = normalized.indexOf(term, index + term.length);
+    }
+    for (const match of normalized.matchAll(WORD_PATTERN)) {
+      if (isFuzzyWordMatch(term, match[0])) ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  const merged: HighlightRange[] = [];
+  for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged.map(([start, end]) => [offsets[start], offsets[end]]);
+};
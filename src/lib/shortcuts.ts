@@ -0,0 +1,133 @@
+// Single-key shortcuts for the todo views, with user-remappable bindings
+
+export type ShortcutAction =
+  | 'newTask'
+  | 'nextTask'
+  | 'previousTask'
+  | 'toggleComplete'
+  | 'editTask'
+  | 'deleteTask'
+  | 'moveTaskUp'
+  | 'moveTaskDown'
+  | 'filterAll'
+  | 'filterActive'
+  | 'filterCompleted'
+  | 'focusSearch'
+  | 'showShortcuts';
+
+// Each action maps to a KeyboardEvent.key value
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: 'Tasks' | 'Navigation' | 'General';
+}
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'newTask', label: 'New task', group: 'Tasks' },
+  { action: 'toggleComplete', label: 'Toggle complete', group: 'Tasks' },
+  { action: 'editTask', label: 'Edit task', group: 'Tasks' },
+  { action: 'deleteTask', label: 'Delete task', group: 'Tasks' },
+  { action: 'moveTaskUp', label: 'Move task up', group: 'Tasks' },
+  { action: 'moveTaskDown', label: 'Move task down', group: 'Tasks' },
+  { action: 'nextTask', label: 'Select next task', group: 'Navigation' },
+  { action: 'previousTask', label: 'Select previous task', group: 'Navigation' },
+  { action: 'filterAll', label: 'Show all tasks', group: 'Navigation' },
+  { action: 'filterActive', label: 'Show active tasks', group: 'Navigation' },
+  { action: 'filterCompleted', label: 'Show completed tasks', group: 'Navigation' },
+  { action: 'focusSearch', label: 'Search', group: 'General' },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', group: 'General' },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS: ShortcutBindings = {
+  newTask: 'n',
+  nextTask: 'j',
+  previousTask: 'k',
+  toggleComplete: 'x',
+  editTask: 'e',
+  deleteTask: 'Delete',
+  moveTaskUp: 'K',
+  moveTaskDown: 'J',
+  filterAll: '1',
+  filterActive: '2',
+  filterCompleted: '3',
+  focusSearch: '/',
+  showShortcuts: '?',
+};
+
+// Keys that keep their usual meaning and can't be bound
+export const RESERVED_KEYS = ['Escape', 'Tab', 'Enter', 'Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  Delete: 'Del',
+  Backspace: '⌫',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+export const formatShortcutKey = (key: string) => KEY_LABELS[key] ?? key;
+
+const STORAGE_KEY = 'do-dash-pro:shortcuts';
+
+class ShortcutStore {
+  private bindings: ShortcutBindings;
+  private listeners = new Set<(bindings: ShortcutBindings) => void>();
+
+  constructor() {
+    this.bindings = this.load();
+  }
+
+  getBindings(): ShortcutBindings {
+    return this.bindings;
+  }
+
+  // Action currently bound to `key`, if any
+  findAction(key: string): ShortcutAction | undefined {
+    return (Object.keys(this.bindings) as ShortcutAction[]).find(action => this.bindings[action] === key);
+  }
+
+  setBinding(action: ShortcutAction, key: string) {
+    this.bindings = { ...this.bindings, [action]: key };
+    this.commit();
+  }
+
+  reset() {
+    this.bindings = DEFAULT_SHORTCUT_BINDINGS;
+    this.commit();
+  }
+
+  subscribe(listener: (bindings: ShortcutBindings) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Merged with the defaults so actions added since the bindings were saved get a key
+  private load(): ShortcutBindings {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        return { ...DEFAULT_SHORTCUT_BINDINGS, ...(JSON.parse(raw) as Partial<ShortcutBindings>) };
+      }
+    } catch {
+      // Ignore unavailable or corrupted storage and use the defaults
+    }
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+
+  private commit() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch {
+      // Persisting is best effort
+    }
+    this.listeners.forEach(listener => listener(this.bindings));
+  }
+}
+
+export const shortcutStore = new ShortcutStore();
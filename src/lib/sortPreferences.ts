@@ -0,0 +1,33 @@
+// Sort order remembered per view (each project, the Inbox, ...)
+
+import { TodoSort } from '@/types/todo';
+import { DEFAULT_TODO_SORT, isSortDirection, isTodoSortField } from '@/lib/sorting';
+
+const STORAGE_KEY = 'do-dash-pro:sort';
+
+const loadSortPreferences = (): Record<string, TodoSort> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : {};
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    // Ignore unavailable or corrupted storage
+    return {};
+  }
+};
+
+// Falls back to the default when nothing (or something no longer valid) was saved
+export const getSortPreference = (viewId: string): TodoSort => {
+  const sort = loadSortPreferences()[viewId];
+  return sort && isTodoSortField(sort.field) && isSortDirection(sort.direction)
+    ? { field: sort.field, direction: sort.direction }
+    : DEFAULT_TODO_SORT;
+};
+
+export const saveSortPreference = (viewId: string, sort: TodoSort) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadSortPreferences(), [viewId]: sort }));
+  } catch {
+    // Persisting is best effort
+  }
+};
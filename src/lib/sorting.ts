@@ -0,0 +1,86 @@
+// Todo sort orders: the primary field, its direction and the tie-breakers behind it
+
+import { SortDirection, Todo, TodoSort, TodoSortField } from "@/types/todo";
+import { getDueMoment } from "@/lib/dueDates";
+import { comparePriority } from "@/lib/priority";
+import { compareRank } from "@/lib/ranking";
+
+export const DEFAULT_TODO_SORT: TodoSort = { field: "manual", direction: "asc" };
+
+interface SortFieldMeta {
+  label: string;
+  // Direction picked when switching to the field
+  defaultDirection: SortDirection;
+  // The manual order has no meaningful reverse
+  directional: boolean;
+}
+
+export const SORT_FIELD_META: Record<TodoSortField, SortFieldMeta> = {
+  manual: { label: "Manual order", defaultDirection: "asc", directional: false },
+  dueDate: { label: "Due date", defaultDirection: "asc", directional: true },
+  priority: { label: "Priority", defaultDirection: "desc", directional: true },
+  title: { label: "Title", defaultDirection: "asc", directional: true },
+  updatedAt: { label: "Last updated", defaultDirection: "desc", directional: true },
+  completedAt: { label: "Completed", defaultDirection: "desc", directional: true },
+};
+
+export const SORT_FIELDS = Object.keys(SORT_FIELD_META) as TodoSortField[];
+
+export const isTodoSortField = (value: unknown): value is TodoSortField =>
+  SORT_FIELDS.includes(value as TodoSortField);
+
+export const isSortDirection = (value: unknown): value is SortDirection => value === "asc" || value === "desc";
+
+type Comparator = (a: Todo, b: Todo) => number;
+
+// Missing values sort last whichever direction is chosen
+const byOptionalTime = (getTime: (todo: Todo) => number | undefined, direction: SortDirection): Comparator =>
+  (a, b) => {
+    const timeA = getTime(a);
+    const timeB = getTime(b);
+    if (timeA === undefined || timeB === undefined) {
+      return (timeA === undefined ? 1 : 0) - (timeB === undefined ? 1 : 0);
+    }
+    return direction === "asc" ? timeA - timeB : timeB - timeA;
+  };
+
+const reversible = (compare: Comparator, direction: SortDirection): Comparator =>
+  direction === "asc" ? compare : (a, b) => compare(b, a);
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true });
+
+const dueTime = (todo: Todo) => getDueMoment(todo)?.getTime();
+
+// comparePriority puts the most important first, which is the descending order
+const primaryComparators: Record<TodoSortField, (direction: SortDirection) => Comparator> = {
+  manual: () => compareRank,
+  dueDate: (direction) => byOptionalTime(dueTime, direction),
+  priority: (direction) => reversible((a, b) => -comparePriority(a, b), direction),
+  title: (direction) => reversible((a, b) => titleCollator.compare(a.title, b.title), direction),
+  updatedAt: (direction) => reversible((a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime(), direction),
+  completedAt: (direction) => byOptionalTime((todo) => todo.completedAt && new Date(todo.completedAt).getTime(), direction),
+};
+
+// Ties fall back to the soonest due date, then the highest priority, then the manual order
+const tieBreakers: [TodoSortField, Comparator][] = [
+  ["dueDate", byOptionalTime(dueTime, "asc")],
+  ["priority", comparePriority],
+  ["manual", compareRank],
+];
+
+export const compareTodos = (sort: TodoSort): Comparator => {
+  const comparators = [
+    primaryComparators[sort.field](sort.direction),
+    ...tieBreakers.filter(([field]) => field !== sort.field).map(([, compare]) => compare),
+  ];
+
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return a.id.localeCompare(b.id);
+  };
+};
+
+export const sortTodos = (todos: Todo[], sort: TodoSort = DEFAULT_TODO_SORT) => [...todos].sort(compareTodos(sort));
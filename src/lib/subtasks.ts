@@ -0,0 +1,39 @@
+// Subtask ordering, progress and parent (auto-)completion helpers
+
+import { Subtask, Todo } from "@/types/todo";
+
+export const SUBTASK_TITLE_MAX_LENGTH = 100;
+
+export const sortSubtasks = (subtasks: Subtask[]) => [...subtasks].sort((a, b) => a.order - b.order);
+
+export const getSubtaskProgress = (todo: Pick<Todo, "subtasks">) => {
+  const total = todo.subtasks.length;
+  const done = todo.subtasks.filter((subtask) => subtask.completed).length;
+  return { done, total, percent: total === 0 ? 0 : Math.round((done / total) * 100) };
+};
+
+// Sets the completion state, stamping completedAt only when it actually changes
+export const withCompletion = (todo: Todo, completed: boolean): Todo =>
+  completed === todo.completed
+    ? todo
+    : { ...todo, completed, completedAt: completed ? new Date() : undefined };
+
+// Store the subtasks with contiguous order values; with completeWithSubtasks the
+// parent follows its checklist (done once every step is, reopened otherwise)
+export const withSubtasks = (todo: Todo, subtasks: Subtask[]): Todo => {
+  const ordered = subtasks.map((subtask, index) => ({ ...subtask, order: index }));
+  const syncsCompletion = todo.completeWithSubtasks && ordered.length > 0;
+
+  return withCompletion(
+    { ...todo, subtasks: ordered },
+    syncsCompletion ? ordered.every((subtask) => subtask.completed) : todo.completed,
+  );
+};
+
+// Moves the listed ids to the front in the given order; unlisted subtasks keep their relative order
+export const reorderSubtaskList = (subtasks: Subtask[], subtaskIds: string[]) => {
+  const byId = new Map(subtasks.map((subtask) => [subtask.id, subtask]));
+  const listed = subtaskIds.map((id) => byId.get(id)).filter((subtask): subtask is Subtask => Boolean(subtask));
+  const rest = sortSubtasks(subtasks).filter((subtask) => !subtaskIds.includes(subtask.id));
+  return [...listed, ...rest];
+};
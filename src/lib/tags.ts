@@ -0,0 +1,53 @@
+// Tag colors, name normalization and tag filtering helpers
+
+import { Tag, TagColor, Todo } from "@/types/todo";
+
+export const TAG_NAME_MAX_LENGTH = 30;
+
+export const DEFAULT_TAG_COLOR: TagColor = "gray";
+
+export type TagMatchMode = "and" | "or";
+
+export const TAG_COLOR_CLASSES: Record<TagColor, { badge: string; swatch: string; text: string }> = {
+  gray: { badge: "bg-slate-500/10 text-slate-700 border-slate-500/30", swatch: "bg-slate-500", text: "text-slate-500" },
+  red: { badge: "bg-red-500/10 text-red-700 border-red-500/30", swatch: "bg-red-500", text: "text-red-500" },
+  orange: { badge: "bg-orange-500/10 text-orange-700 border-orange-500/30", swatch: "bg-orange-500", text: "text-orange-500" },
+  yellow: { badge: "bg-yellow-500/10 text-yellow-700 border-yellow-500/30", swatch: "bg-yellow-500", text: "text-yellow-500" },
+  green: { badge: "bg-green-500/10 text-green-700 border-green-500/30", swatch: "bg-green-500", text: "text-green-500" },
+  teal: { badge: "bg-teal-500/10 text-teal-700 border-teal-500/30", swatch: "bg-teal-500", text: "text-teal-500" },
+  blue: { badge: "bg-blue-500/10 text-blue-700 border-blue-500/30", swatch: "bg-blue-500", text: "text-blue-500" },
+  purple: { badge: "bg-purple-500/10 text-purple-700 border-purple-500/30", swatch: "bg-purple-500", text: "text-purple-500" },
+  pink: { badge: "bg-pink-500/10 text-pink-700 border-pink-500/30", swatch: "bg-pink-500", text: "text-pink-500" },
+};
+
+export const TAG_COLORS = Object.keys(TAG_COLOR_CLASSES) as TagColor[];
+
+// Tag names are unique case-insensitively
+export const normalizeTagName = (name: string) => name.trim().toLowerCase();
+
+// "and" requires every selected tag, "or" any of them; no selection matches everything
+export const matchesTags = (todo: Todo, selected: string[], mode: TagMatchMode) => {
+  if (selected.length === 0) return true;
+
+  const todoTags = new Set(todo.tags.map(normalizeTagName));
+  const wanted = selected.map(normalizeTagName);
+  return mode === "and"
+    ? wanted.every((tag) => todoTags.has(tag))
+    : wanted.some((tag) => todoTags.has(tag));
+};
+
+// Color lookup by normalized name; names without a Tag record fall back to the default
+export const getTagColor = (tags: Tag[] | undefined, name: string): TagColor => {
+  const normalized = normalizeTagName(name);
+  return tags?.find((tag) => normalizeTagName(tag.name) === normalized)?.color ?? DEFAULT_TAG_COLOR;
+};
+
+// Removes and then adds tag names case-insensitively; existing tags keep their order
+export const applyTagChanges = (tags: string[], add: string[] = [], remove: string[] = []) => {
+  const removed = new Set(remove.map(normalizeTagName));
+  return add.reduce(
+    (result, tag) =>
+      result.some((existing) => normalizeTagName(existing) === normalizeTagName(tag)) ? result : [...result, tag],
+    tags.filter((tag) => !removed.has(normalizeTagName(tag))),
+  );
+};
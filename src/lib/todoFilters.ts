@@ -0,0 +1,51 @@
+// Filtering rules shared by every view that lists todos
+
+import { Todo, TodoFilter, TodoPriority } from "@/types/todo";
+import { getDueStatus, isDueToday } from "@/lib/dueDates";
+
+export const ALL_PRIORITIES = "all";
+
+// URL query parameter holding the selected TodoFilter
+export const FILTER_PARAM = "filter";
+
+export type PriorityFilter = TodoPriority | typeof ALL_PRIORITIES;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (todo: Todo) => Boolean(todo.deletedAt);
+
+// Trashed todos never match a filter; they are only listed on the Trash page.
+// The due date filters only consider todos that are still open.
+export const matchesFilter = (todo: Todo, filter: TodoFilter, now = new Date()) => {
+  if (isTrashed(todo)) return false;
+
+  switch (filter) {
+    case TodoFilter.ACTIVE:
+      return !todo.completed;
+    case TodoFilter.COMPLETED:
+      return todo.completed;
+    case TodoFilter.OVERDUE:
+      return getDueStatus(todo, now) === "overdue";
+    case TodoFilter.TODAY:
+      return !todo.completed && isDueToday(todo, now);
+    case TodoFilter.UPCOMING:
+      return getDueStatus(todo, now) === "upcoming" && !isDueToday(todo, now);
+    default:
+      return true;
+  }
+};
+
+export const parseTodoFilter = (value: string | null): TodoFilter =>
+  Object.values(TodoFilter).includes(value as TodoFilter) ? (value as TodoFilter) : TodoFilter.ALL;
+
+export const matchesPriority = (todo: Todo, priority: PriorityFilter) =>
+  priority === ALL_PRIORITIES || todo.priority === priority;
+
+// When a trashed todo becomes eligible for automatic purging
+export const getPurgeDate = (todo: Todo, retentionDays: number) =>
+  todo.deletedAt ? new Date(new Date(todo.deletedAt).getTime() + retentionDays * DAY_MS) : null;
+
+export const isPurgeDue = (todo: Todo, retentionDays: number, now = new Date()) => {
+  const purgeDate = getPurgeDate(todo, retentionDays);
+  return purgeDate !== null && purgeDate.getTime() <= now.getTime();
+};
@@ -0,0 +1,26 @@
+// Applying an UpdateTodoInput to a todo, as the service does when it saves one
+
+import { Todo, UpdateTodoInput } from "@/types/todo";
+import { withCompletion } from "@/lib/subtasks";
+
+// Merge an update into a todo; fields left undefined keep their value, null clears optional fields
+// and a cleared due date takes its time with it
+export const applyTodoUpdate = (todo: Todo, { completed, version: _version, ...input }: Partial<UpdateTodoInput>): Todo => {
+  const updatedTodo: Todo = {
+    ...withCompletion(todo, completed ?? todo.completed),
+    version: todo.version + 1,
+    updatedAt: new Date(),
+  };
+
+  Object.entries(input).forEach(([key, value]) => {
+    if (value !== undefined) {
+      updatedTodo[key] = value ?? undefined;
+    }
+  });
+
+  if (!updatedTodo.dueDate) {
+    updatedTodo.dueTime = undefined;
+  }
+
+  return updatedTodo;
+};
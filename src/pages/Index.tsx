@@ -4,52 +4,104 @@ import { useState, useEffect } from "react";
 import { AddToDoForm } from "@/components/todo/AddToDoForm";
 import { ToDoList } from "@/components/todo/ToDoList";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { SyncStatusIndicator } from "@/components/sync/SyncStatusIndicator";
 import { useToast } from "@/hooks/use-toast";
-import { todoApi, ApiError } from "@/services/todoApi";
-import { Todo, CreateTodoInput, UpdateTodoInput, TodoFilter, LoadingState } from "@/types/todo";
-import { CheckSquare, Sparkles } from "lucide-react";
+import { ApiError } from "@/services/todoApi";
+import {
+  useCreateTodo,
+  useDeleteTodo,
+  usePendingTodoIds,
+  useReorderTodos,
+  useBulkUpdateTodos,
+  useBulkDeleteTodos,
+  useBatchTodos,
+  useRestoreTodos,
+  useTodos,
+  useUpdateTodo
+} from "@/hooks/use-todos";
+import { useProjects } from "@/hooks/use-projects";
+import { useSortPreference } from "@/hooks/use-sort-preference";
+import { ToastAction } from "@/components/ui/toast";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Badge } from "@/components/ui/badge";
+import { FILTER_PARAM, matchesFilter, parseTodoFilter } from "@/lib/todoFilters";
+import { INBOX_PROJECT_ID, PROJECT_ICONS, isInProject } from "@/lib/projects";
+import { TAG_COLOR_CLASSES } from "@/lib/tags";
+import { splitBatchResults } from "@/lib/batch";
+import { isConflictError } from "@/lib/conflicts";
+import { Todo, CreateTodoInput, UpdateTodoInput, TodoFilter, BulkUpdateTodosInput } from "@/types/todo";
+import { Navigate, useLocation, useParams, useSearchParams } from "react-router-dom";
+import { CheckSquare, Inbox, Sparkles } from "lucide-react";
+
+// How long the "Undo" action stays available after a delete
+const UNDO_WINDOW_MS = 8000;
 
 const Index = () => {
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [filter, setFilter] = useState<TodoFilter>(TodoFilter.ALL);
-  const [loadingState, setLoadingState] = useState<LoadingState>({
-    isLoading: false
-  });
-  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const { projectId = INBOX_PROJECT_ID } = useParams();
+  const { hash, key: locationKey } = useLocation();
+  // The filter lives in the URL so the command palette and links can change it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = parseTodoFilter(searchParams.get(FILTER_PARAM));
+  const [sort, setSort] = useSortPreference(projectId);
+  const { data, isPending: isInitialLoading, error: fetchError } = useTodos(sort);
+  const { data: projects, isPending: isLoadingProjects } = useProjects();
+  const project = projects?.find(candidate => candidate.id === projectId);
+  const isInbox = projectId === INBOX_PROJECT_ID;
+  // The list, counts and bulk actions only ever see the selected project
+  const todos = (data ?? []).filter(todo => isInProject(todo, projectId));
+  const hasCachedTodos = data !== undefined;
+  const createTodo = useCreateTodo();
+  const updateTodo = useUpdateTodo();
+  const deleteTodo = useDeleteTodo();
+  const restoreTodos = useRestoreTodos();
+  const reorderTodos = useReorderTodos();
+  const bulkUpdateTodos = useBulkUpdateTodos();
+  const bulkDeleteTodos = useBulkDeleteTodos();
+  const batchTodos = useBatchTodos();
+  const pendingIds = usePendingTodoIds();
+  const [isClearingCompleted, setIsClearingCompleted] = useState(false);
   const { toast } = useToast();
 
-  // Fetch todos on component mount
+  // Surface failures of the initial load; background refetch errors keep showing the cached list
   useEffect(() => {
-    const fetchTodos = async () => {
-      try {
-        setIsInitialLoading(true);
-        const response = await todoApi.getAllTodos();
-        setTodos(response.data);
-      } catch (error) {
-        const errorMessage = error instanceof ApiError 
-          ? error.message 
-          : 'Failed to load tasks. Please refresh the page.';
-        
-        toast({
-          title: "Error",
-          description: errorMessage,
-          variant: "destructive",
-        });
-      } finally {
-        setIsInitialLoading(false);
+    if (!fetchError || hasCachedTodos) return;
+
+    const errorMessage = fetchError instanceof ApiError 
+      ? fetchError.message 
+      : 'Failed to load tasks. Please refresh the page.';
+    
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  }, [fetchError, hasCachedTodos, toast]);
+
+  const handleFilterChange = (nextFilter: TodoFilter) => {
+    setSearchParams(params => {
+      if (nextFilter === TodoFilter.ALL) {
+        params.delete(FILTER_PARAM);
+      } else {
+        params.set(FILTER_PARAM, nextFilter);
       }
-    };
+      return params;
+    }, { replace: true });
+  };
+
+  // Scroll to and focus the todo named in the URL hash (set when jumping to a task)
+  useEffect(() => {
+    const id = hash.slice(1);
+    if (!id || !hasCachedTodos) return;
 
-    fetchTodos();
-  }, [toast]);
+    const element = document.getElementById(id);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+    element?.focus({ preventScroll: true });
+  }, [hash, locationKey, hasCachedTodos]);
 
   // Create new todo
   const handleCreateTodo = async (input: CreateTodoInput) => {
-    setLoadingState({ isLoading: true, operation: 'create' });
-    
     try {
-      const response = await todoApi.createTodo(input);
-      setTodos(prev => [response.data, ...prev]);
+      await createTodo.mutateAsync({ ...input, projectId: isInbox ? undefined : projectId });
       
       toast({
         title: "Success",
@@ -67,23 +119,22 @@ const Index = () => {
         variant: "destructive",
       });
       throw error; // Re-throw to prevent form reset
-    } finally {
-      setLoadingState({ isLoading: false });
     }
   };
 
   // Update todo
   const handleUpdateTodo = async (id: string, input: UpdateTodoInput) => {
-    setLoadingState({ isLoading: true, operation: 'update', targetId: id });
-    
     try {
-      const response = await todoApi.updateTodo(id, input);
-      setTodos(prev => prev.map(todo => 
-        todo.id === id ? response.data : todo
-      ));
+      const updatedTodo = await updateTodo.mutateAsync({ id, input });
 
       // Show success message only for manual edits (not checkbox toggles)
-      if (input.title || input.description) {
+      if (input.completed && updatedTodo.recurrence) {
+        toast({
+          title: "Task completed",
+          description: "The next occurrence was added to your list.",
+          variant: "default",
+        });
+      } else if (input.title || input.description) {
         toast({
           title: "Success",
           description: "Task updated successfully!",
@@ -91,6 +142,9 @@ const Index = () => {
         });
       }
     } catch (error) {
+      // The todo's own merge dialog handles version conflicts
+      if (isConflictError(error)) throw error;
+
       const errorMessage = error instanceof ApiError 
         ? error.message 
         : 'Failed to update task. Please try again.';
@@ -101,23 +155,51 @@ const Index = () => {
         variant: "destructive",
       });
       throw error;
-    } finally {
-      setLoadingState({ isLoading: false });
     }
   };
 
+  // Restore deleted todos (Undo)
+  const handleRestoreTodos = async (deletedTodos: Todo[]) => {
+    try {
+      await restoreTodos.mutateAsync(deletedTodos.map(todo => todo.id));
+
+      toast({
+        title: "Restored",
+        description: `${deletedTodos.length} task(s) restored.`,
+        variant: "default",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof ApiError 
+        ? error.message 
+        : 'Failed to restore tasks. Please try again.';
+
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const undoAction = (deletedTodos: Todo[]) => (
+    <ToastAction altText="Undo delete" onClick={() => handleRestoreTodos(deletedTodos)}>
+      Undo
+    </ToastAction>
+  );
+
   // Delete todo
   const handleDeleteTodo = async (id: string) => {
-    setLoadingState({ isLoading: true, operation: 'delete', targetId: id });
-    
+    const deletedTodo = todos.find(todo => todo.id === id);
+
     try {
-      await todoApi.deleteTodo(id);
-      setTodos(prev => prev.filter(todo => todo.id !== id));
+      await deleteTodo.mutateAsync(id);
       
       toast({
         title: "Success",
-        description: "Task deleted successfully!",
+        description: "Task moved to trash.",
         variant: "default",
+        duration: UNDO_WINDOW_MS,
+        action: deletedTodo && undoAction([deletedTodo]),
       });
     } catch (error) {
       const errorMessage = error instanceof ApiError 
@@ -129,26 +211,108 @@ const Index = () => {
         description: errorMessage,
         variant: "destructive",
       });
-    } finally {
-      setLoadingState({ isLoading: false });
     }
   };
 
-  // Bulk delete completed todos
-  const handleBulkDelete = async () => {
-    const completedTodos = todos.filter(todo => todo.completed);
-    setLoadingState({ isLoading: true, operation: 'delete' });
-    
+  // Move todos within the manual order; the cache is re-ranked optimistically
+  const handleReorderTodos = async (ids: string[], afterId: string | null) => {
     try {
-      // Delete all completed todos
-      await Promise.all(completedTodos.map(todo => todoApi.deleteTodo(todo.id)));
-      setTodos(prev => prev.filter(todo => !todo.completed));
-      
+      await reorderTodos.mutateAsync({ ids, afterId });
+    } catch (error) {
+      const errorMessage = error instanceof ApiError
+        ? error.message
+        : 'Failed to reorder tasks. Please try again.';
+
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Apply one change to every selected todo
+  const handleUpdateMany = async (ids: string[], input: BulkUpdateTodosInput) => {
+    try {
+      const updatedTodos = await bulkUpdateTodos.mutateAsync({ ids, input });
+
+      toast({
+        title: "Success",
+        description: `${updatedTodos.length} task(s) updated.`,
+        variant: "default",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof ApiError
+        ? error.message
+        : 'Failed to update tasks. Please try again.';
+
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // Move every selected todo to the trash
+  const handleDeleteMany = async (ids: string[]) => {
+    const deletedTodos = todos.filter(todo => ids.includes(todo.id));
+
+    try {
+      await bulkDeleteTodos.mutateAsync(ids);
+
       toast({
         title: "Success",
-        description: `${completedTodos.length} completed task(s) deleted!`,
+        description: `${ids.length} task(s) moved to trash.`,
         variant: "default",
+        duration: UNDO_WINDOW_MS,
+        action: undoAction(deletedTodos),
       });
+    } catch (error) {
+      const errorMessage = error instanceof ApiError
+        ? error.message
+        : 'Failed to delete tasks. Please try again.';
+
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  // Bulk delete completed todos; each delete succeeds or fails on its own and the
+  // toast reports (and offers to undo) exactly the ones that went through
+  const handleBulkDelete = async () => {
+    const completedTodos = todos.filter(todo => matchesFilter(todo, TodoFilter.COMPLETED));
+    setIsClearingCompleted(true);
+    
+    try {
+      const results = await batchTodos.mutateAsync({
+        operations: completedTodos.map(todo => ({ type: 'delete', id: todo.id })),
+        mode: 'bestEffort',
+      });
+      const { succeeded, failed, firstError } = splitBatchResults(completedTodos, results);
+
+      if (failed.length === 0) {
+        toast({
+          title: "Success",
+          description: `${succeeded.length} completed task(s) moved to trash.`,
+          variant: "default",
+          duration: UNDO_WINDOW_MS,
+          action: undoAction(succeeded),
+        });
+      } else {
+        toast({
+          title: succeeded.length > 0 ? "Some tasks were not deleted" : "Error",
+          description: `${succeeded.length} of ${completedTodos.length} completed task(s) moved to trash. ${firstError.message}`,
+          variant: "destructive",
+          duration: UNDO_WINDOW_MS,
+          action: succeeded.length > 0 ? undoAction(succeeded) : undefined,
+        });
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -156,10 +320,17 @@ const Index = () => {
         variant: "destructive",
       });
     } finally {
-      setLoadingState({ isLoading: false });
+      setIsClearingCompleted(false);
     }
   };
 
+  // Unknown (e.g. deleted) projects fall back to the Inbox
+  if (!isInbox && !isLoadingProjects && !project) {
+    return <Navigate to="/" replace />;
+  }
+
+  const ProjectIcon = project ? PROJECT_ICONS[project.icon] : Inbox;
+
   if (isInitialLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -178,7 +349,8 @@ const Index = () => {
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b border-border/50 bg-card/30 backdrop-blur-sm sticky top-0 z-10">
-        <div className="container mx-auto px-4 py-6">
+        <div className="container mx-auto px-4 py-6 relative">
+          <SidebarTrigger className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-card-foreground" />
           <div className="flex items-center justify-center gap-3">
             <div className="inline-flex items-center justify-center w-10 h-10 rounded-xl bg-gradient-primary">
               <CheckSquare className="h-6 w-6 text-white" />
@@ -192,16 +364,28 @@ const Index = () => {
               </p>
             </div>
           </div>
+          <SyncStatusIndicator className="absolute right-4 top-1/2 -translate-y-1/2" />
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8 max-w-4xl">
         <div className="space-y-8">
+          {/* Project Heading */}
+          <div className="flex items-center gap-3">
+            <ProjectIcon
+              className={project ? `h-6 w-6 ${TAG_COLOR_CLASSES[project.color].text}` : "h-6 w-6 text-primary"}
+            />
+            <h2 className="text-2xl font-semibold text-card-foreground">
+              {project?.name ?? "Inbox"}
+            </h2>
+            {project?.archived && <Badge variant="secondary">Archived</Badge>}
+          </div>
+
           {/* Add Todo Form */}
           <AddToDoForm 
             onSubmit={handleCreateTodo}
-            isLoading={loadingState.isLoading && loadingState.operation === 'create'}
+            isLoading={createTodo.isPending}
           />
 
           {/* Todo List */}
@@ -210,10 +394,15 @@ const Index = () => {
             onUpdate={handleUpdateTodo}
             onDelete={handleDeleteTodo}
             onBulkDelete={handleBulkDelete}
-            isLoading={loadingState.isLoading}
-            loadingOperation={loadingState.targetId}
+            onUpdateMany={handleUpdateMany}
+            onDeleteMany={handleDeleteMany}
+            onReorder={handleReorderTodos}
+            sort={sort}
+            onSortChange={setSort}
+            pendingIds={pendingIds}
+            isClearingCompleted={isClearingCompleted}
             filter={filter}
-            onFilterChange={setFilter}
+            onFilterChange={handleFilterChange}
           />
         </div>
       </main>
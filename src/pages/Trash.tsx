@@ -0,0 +1,175 @@
+// Trash page - restore or permanently delete trashed tasks
+
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { TrashedToDoItem } from "@/components/todo/TrashedToDoItem";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ONLINE_ONLY_HINT, useOnlineActionsEnabled } from "@/hooks/use-sync-status";
+import { useEmptyTrash, usePendingTodoIds, usePurgeTodo, useRestoreTodos, useTrashedTodos } from "@/hooks/use-todos";
+import { ApiError } from "@/services/todoApi";
+import { serviceConfig } from "@/services/config";
+import { ArrowLeft, Trash2 } from "lucide-react";
+
+const Trash = () => {
+  const { data: trashedTodos = [], isPending, error: fetchError } = useTrashedTodos();
+  const restoreTodos = useRestoreTodos();
+  const purgeTodo = usePurgeTodo();
+  const emptyTrash = useEmptyTrash();
+  const pendingIds = usePendingTodoIds();
+  // Restoring and purging can't be queued offline
+  const onlineActionsEnabled = useOnlineActionsEnabled();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!fetchError) return;
+
+    toast({
+      title: "Error",
+      description: fetchError instanceof ApiError
+        ? fetchError.message
+        : 'Failed to load trash. Please refresh the page.',
+      variant: "destructive",
+    });
+  }, [fetchError, toast]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof ApiError ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleRestore = async (id: string) => {
+    try {
+      await restoreTodos.mutateAsync([id]);
+      toast({ title: "Restored", description: "Task restored.", variant: "default" });
+    } catch (error) {
+      showError(error, 'Failed to restore task. Please try again.');
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    try {
+      await purgeTodo.mutateAsync(id);
+      toast({ title: "Deleted", description: "Task deleted permanently.", variant: "default" });
+    } catch (error) {
+      showError(error, 'Failed to delete task. Please try again.');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await emptyTrash.mutateAsync();
+      toast({ title: "Trash emptied", description: "All trashed tasks were deleted permanently.", variant: "default" });
+    } catch (error) {
+      showError(error, 'Failed to empty trash. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/30 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-6 max-w-4xl flex items-center justify-between gap-3">
+          <div className="flex items-center gap-1">
+            <SidebarTrigger className="text-muted-foreground hover:text-card-foreground" />
+            <Button asChild variant="ghost" size="sm" className="text-muted-foreground hover:text-card-foreground">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Back to tasks</span>
+              </Link>
+            </Button>
+          </div>
+          <div className="text-center">
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Trash
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {onlineActionsEnabled
+                ? `Tasks are deleted permanently after ${serviceConfig.trashRetentionDays} days`
+                : ONLINE_ONLY_HINT}
+            </p>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={trashedTodos.length === 0 || emptyTrash.isPending || !onlineActionsEnabled}
+                title={onlineActionsEnabled ? undefined : ONLINE_ONLY_HINT}
+                className="text-destructive hover:text-destructive hover:bg-destructive/10 border-destructive/20"
+              >
+                <Trash2 className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Empty Trash</span>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {trashedTodos.length} task(s) will be deleted permanently. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleEmptyTrash}>Empty Trash</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {isPending ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" className="text-primary" />
+          </div>
+        ) : trashedTodos.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gradient-primary mb-4">
+              <Trash2 className="h-8 w-8 text-white" />
+            </div>
+            <h3 className="text-xl font-semibold text-card-foreground mb-2">
+              Trash is empty
+            </h3>
+            <p className="text-muted-foreground max-w-sm mx-auto">
+              Deleted tasks show up here until they are restored or purged.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {trashedTodos.map((todo) => (
+              <TrashedToDoItem
+                key={todo.id}
+                todo={todo}
+                retentionDays={serviceConfig.trashRetentionDays}
+                onRestore={handleRestore}
+                onPurge={handlePurge}
+                isLoading={pendingIds.has(todo.id)}
+                disabled={!onlineActionsEnabled}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,33 @@
+// API Error class shared by every todo service implementation
+
+export class ApiError extends Error {
+  code?: string;
+  details?: any;
+  // HTTP status of the server's reply; unset when there was none (network errors, the mock service)
+  status?: number;
+
+  constructor(error: { message: string; code?: string; details?: any; status?: number }) {
+    super(error.message);
+    this.name = 'ApiError';
+    this.code = error.code;
+    this.details = error.details;
+    this.status = error.status;
+  }
+}
+
+// Replies saying the server couldn't handle the request right now: timeouts, rate limits and
+// server-side failures
+const isTransientStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+// Failures where the request never got a real answer (network errors, timeouts, outages), so the
+// same request may well succeed later. Any other reply, e.g. a validation error, would only repeat.
+export const isTransientError = (error: unknown) =>
+  error instanceof ApiError && (
+    error.code === 'NETWORK_ERROR' ||
+    error.code === 'TIMEOUT' ||
+    (error.status !== undefined && isTransientStatus(error.status))
+  );
+
+// The request never reached the server at all, e.g. because the device is offline
+export const isNetworkError = (error: unknown) =>
+  error instanceof ApiError && error.code === 'NETWORK_ERROR';
@@ -0,0 +1,244 @@
+// Publishes todo changes to the app's other open tabs so their caches stay current
+
+import {
+  ApiResponse,
+  BatchMode,
+  BatchOperation,
+  BatchResult,
+  BulkUpdateTodosInput,
+  CreateProjectInput,
+  CreateSubtaskInput,
+  CreateTagInput,
+  CreateTodoInput,
+  CreateTodoOptions,
+  Project,
+  ProjectWithCounts,
+  Tag,
+  TagWithUsage,
+  Todo,
+  TodoApiClient,
+  TodoSort,
+  UpdateProjectInput,
+  UpdateSubtaskInput,
+  UpdateTagInput,
+  UpdateTodoInput
+} from '@/types/todo';
+import { reviveTodo } from '@/services/serialization';
+
+// What changed, carrying the todos as saved so receivers need no refetch. Tag and project changes
+// only say which list to reload: renames, merges and deletes rewrite todos as well. Purges only
+// touch the trash.
+export type TodoChange =
+  | { type: 'created'; todos: Todo[] }
+  | { type: 'updated'; todos: Todo[] }
+  | { type: 'deleted'; ids: string[] }
+  | { type: 'tagsChanged' }
+  | { type: 'projectsChanged' }
+  | { type: 'trashChanged' };
+
+const CHANNEL_NAME = 'do-dash-pro:changes';
+const STORAGE_KEY = 'do-dash-pro:changes';
+
+// BroadcastChannel where supported; otherwise each change is written to localStorage,
+// whose `storage` event fires in every other tab of the same origin
+class ChangeChannel {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(change: TodoChange) => void>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TodoChange>) => this.emit(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', event => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return;
+        try {
+          this.emit(JSON.parse(event.newValue).change);
+        } catch {
+          // Ignore entries this version of the app can't read
+        }
+      });
+    }
+  }
+
+  publish(change: TodoChange) {
+    if (this.channel) {
+      this.channel.postMessage(change);
+      return;
+    }
+    try {
+      // The timestamp makes repeated identical changes still count as a new value
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ change, sentAt: Date.now() }));
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Broadcasting is best effort; other tabs catch up on their next refetch
+    }
+  }
+
+  subscribe(listener: (change: TodoChange) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Dates arrive as strings through the storage fallback
+  private emit(change: TodoChange) {
+    const revived = 'todos' in change ? { ...change, todos: change.todos.map(reviveTodo) } : change;
+    this.listeners.forEach(listener => listener(revived));
+  }
+}
+
+export const todoChanges = new ChangeChannel();
+
+// Successful creates, updates and deletes of a batch, as one change per kind
+const batchChanges = (operations: BatchOperation[], results: BatchResult[]): TodoChange[] => {
+  const created: Todo[] = [];
+  const updated: Todo[] = [];
+  const deleted: string[] = [];
+
+  operations.forEach((operation, index) => {
+    const result = results[index];
+    if (!result?.ok) return;
+    if (operation.type === 'create') created.push(result.data);
+    else if (operation.type === 'update') updated.push(result.data);
+    else deleted.push(operation.id);
+  });
+
+  const changes: TodoChange[] = [
+    { type: 'created', todos: created },
+    { type: 'updated', todos: updated },
+    { type: 'deleted', ids: deleted }
+  ];
+  return changes.filter(change => ('todos' in change ? change.todos : 'ids' in change ? change.ids : []).length > 0);
+};
+
+// Wraps a client so every successful todo, tag, project and trash write is announced to the other
+// tabs. Reads pass straight through.
+export class BroadcastingTodoApi implements TodoApiClient {
+  constructor(private readonly client: TodoApiClient) {}
+
+  getAllTodos(sort?: TodoSort): Promise<ApiResponse<Todo[]>> {
+    return this.client.getAllTodos(sort);
+  }
+
+  async createTodo(input: CreateTodoInput, options?: CreateTodoOptions): Promise<ApiResponse<Todo>> {
+    const response = await this.client.createTodo(input, options);
+    todoChanges.publish({ type: 'created', todos: [response.data] });
+    return response;
+  }
+
+  async updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>> {
+    return this.announceUpdate(await this.client.updateTodo(id, input));
+  }
+
+  async deleteTodo(id: string): Promise<ApiResponse<null>> {
+    const response = await this.client.deleteTodo(id);
+    todoChanges.publish({ type: 'deleted', ids: [id] });
+    return response;
+  }
+
+  async reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>> {
+    const response = await this.client.reorderTodos(ids, afterId);
+    todoChanges.publish({ type: 'updated', todos: response.data });
+    return response;
+  }
+
+  async bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>> {
+    const response = await this.client.bulkUpdateTodos(ids, input);
+    todoChanges.publish({ type: 'updated', todos: response.data });
+    return response;
+  }
+
+  async bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>> {
+    const response = await this.client.bulkDeleteTodos(ids);
+    todoChanges.publish({ type: 'deleted', ids });
+    return response;
+  }
+
+  async batch(operations: BatchOperation[], mode?: BatchMode): Promise<ApiResponse<BatchResult[]>> {
+    const response = await this.client.batch(operations, mode);
+    batchChanges(operations, response.data).forEach(change => todoChanges.publish(change));
+    return response;
+  }
+
+  getTrashedTodos(): Promise<ApiResponse<Todo[]>> {
+    return this.client.getTrashedTodos();
+  }
+
+  // Restored todos reappear in the lists just like new ones
+  async restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>> {
+    const response = await this.client.restoreTodos(ids);
+    todoChanges.publish({ type: 'created', todos: response.data });
+    return response;
+  }
+
+  async purgeTodo(id: string): Promise<ApiResponse<null>> {
+    return this.announce({ type: 'trashChanged' }, await this.client.purgeTodo(id));
+  }
+
+  async emptyTrash(): Promise<ApiResponse<null>> {
+    return this.announce({ type: 'trashChanged' }, await this.client.emptyTrash());
+  }
+
+  getTags(): Promise<ApiResponse<TagWithUsage[]>> {
+    return this.client.getTags();
+  }
+
+  async createTag(input: CreateTagInput): Promise<ApiResponse<Tag>> {
+    return this.announce({ type: 'tagsChanged' }, await this.client.createTag(input));
+  }
+
+  async updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>> {
+    return this.announce({ type: 'tagsChanged' }, await this.client.updateTag(id, input));
+  }
+
+  async mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>> {
+    return this.announce({ type: 'tagsChanged' }, await this.client.mergeTags(sourceIds, targetId));
+  }
+
+  async deleteTag(id: string): Promise<ApiResponse<null>> {
+    return this.announce({ type: 'tagsChanged' }, await this.client.deleteTag(id));
+  }
+
+  getProjects(): Promise<ApiResponse<ProjectWithCounts[]>> {
+    return this.client.getProjects();
+  }
+
+  async createProject(input: CreateProjectInput): Promise<ApiResponse<Project>> {
+    return this.announce({ type: 'projectsChanged' }, await this.client.createProject(input));
+  }
+
+  async updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>> {
+    return this.announce({ type: 'projectsChanged' }, await this.client.updateProject(id, input));
+  }
+
+  async deleteProject(id: string): Promise<ApiResponse<null>> {
+    return this.announce({ type: 'projectsChanged' }, await this.client.deleteProject(id));
+  }
+
+  async addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.announceUpdate(await this.client.addSubtask(todoId, input));
+  }
+
+  async updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.announceUpdate(await this.client.updateSubtask(todoId, subtaskId, input));
+  }
+
+  async reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>> {
+    return this.announceUpdate(await this.client.reorderSubtasks(todoId, subtaskIds, version));
+  }
+
+  async removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>> {
+    return this.announceUpdate(await this.client.removeSubtask(todoId, subtaskId, version));
+  }
+
+  private announceUpdate(response: ApiResponse<Todo>) {
+    return this.announce({ type: 'updated', todos: [response.data] }, response);
+  }
+
+  private announce<T>(change: TodoChange, response: ApiResponse<T>) {
+    todoChanges.publish(change);
+    return response;
+  }
+}
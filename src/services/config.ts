@@ -0,0 +1,39 @@
+// Service layer configuration, read from Vite env variables at startup
+
+import { StorageBackend } from '@/services/storage';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['memory', 'localStorage', 'indexedDB'];
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 8000;
+
+const parseStorageBackend = (value?: string): StorageBackend =>
+  STORAGE_BACKENDS.includes(value as StorageBackend)
+    ? (value as StorageBackend)
+    : 'localStorage';
+
+const parsePositiveNumber = (value: string | undefined, fallback: number): number => {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+export const serviceConfig = {
+  // VITE_TODO_STORAGE=memory | localStorage | indexedDB
+  storage: parseStorageBackend(import.meta.env.VITE_TODO_STORAGE),
+  // When set, todos are read from and written to this REST backend instead of local storage
+  apiBaseUrl: import.meta.env.VITE_TODO_API_URL?.trim() || undefined,
+  // Days a deleted todo stays in the trash before it is purged automatically
+  trashRetentionDays: parsePositiveNumber(import.meta.env.VITE_TRASH_RETENTION_DAYS, DEFAULT_TRASH_RETENTION_DAYS),
+  // Transient failures are retried with exponential backoff; attempts include the first try, so 1 disables retries
+  retry: {
+    attempts: Math.floor(parsePositiveNumber(import.meta.env.VITE_API_RETRY_ATTEMPTS, DEFAULT_RETRY_ATTEMPTS)),
+    baseDelayMs: parsePositiveNumber(import.meta.env.VITE_API_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS),
+    maxDelayMs: parsePositiveNumber(import.meta.env.VITE_API_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_MAX_DELAY_MS)
+  }
+};
+
+// Whether every tab reads and writes the same todos, so changes in one concern the others
+export const isSharedBetweenTabs = (config: typeof serviceConfig) =>
+  Boolean(config.apiBaseUrl) || config.storage !== 'memory';
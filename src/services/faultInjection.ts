@@ -0,0 +1,185 @@
+// Configurable fault injection for the mock API: latency, error rates and forced failures
+
+import { ApiOperation } from '@/types/todo';
+
+export const API_OPERATIONS: ApiOperation[] = ['fetch', 'create', 'update', 'delete', 'restore', 'purge'];
+
+export type FaultKind = 'error' | 'timeout';
+
+// A failure that fires regardless of the error rate. Omitting `operation` or
+// `targetId` matches any; `times` limits how often it fires before expiring.
+export interface ForcedFailure {
+  id: string;
+  kind: FaultKind;
+  operation?: ApiOperation;
+  targetId?: string;
+  times?: number;
+}
+
+export interface FaultInjectionConfig {
+  enabled: boolean;
+  // Simulated round trip in ms, sampled uniformly from [min, max]
+  latency: { min: number; max: number };
+  // Probability (0-1) that each operation fails
+  errorRates: Record<ApiOperation, number>;
+  // Seed for the RNG behind latency and error sampling; null uses Math.random
+  seed: number | null;
+  // Requests slower than this fail with a TIMEOUT error; null disables timeouts
+  timeoutMs: number | null;
+  forcedFailures: ForcedFailure[];
+}
+
+export type FaultOutcome = 'ok' | FaultKind;
+
+const STORAGE_KEY = 'do-dash-pro:fault-injection';
+
+export const DEFAULT_FAULT_INJECTION_CONFIG: FaultInjectionConfig = {
+  enabled: true,
+  latency: { min: 800, max: 800 },
+  errorRates: { fetch: 0.1, create: 0.1, update: 0.1, delete: 0.1, restore: 0.1, purge: 0.1 },
+  seed: null,
+  timeoutMs: null,
+  forcedFailures: []
+};
+
+// Small, fast seedable PRNG (mulberry32) so failures can be reproduced run to run
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class FaultInjector {
+  private config: FaultInjectionConfig;
+  private random: () => number;
+  private listeners = new Set<(config: FaultInjectionConfig) => void>();
+
+  constructor() {
+    this.config = this.load();
+    this.random = this.createRandom();
+  }
+
+  getConfig(): FaultInjectionConfig {
+    return this.config;
+  }
+
+  // Shallow-merges the given settings; changing the seed restarts the random sequence
+  configure(changes: Partial<FaultInjectionConfig>) {
+    const next = { ...this.config, ...changes };
+    const reseed = 'seed' in changes;
+    this.config = next;
+    if (reseed) this.random = this.createRandom();
+    this.commit();
+  }
+
+  reset() {
+    this.config = DEFAULT_FAULT_INJECTION_CONFIG;
+    this.random = this.createRandom();
+    this.commit();
+  }
+
+  forceFailure(failure: Omit<ForcedFailure, 'id'>): string {
+    const id = `${Date.now()}-${Math.round(Math.random() * 1e6)}`;
+    this.configure({ forcedFailures: [...this.config.forcedFailures, { ...failure, id }] });
+    return id;
+  }
+
+  clearForcedFailure(id: string) {
+    this.configure({
+      forcedFailures: this.config.forcedFailures.filter(failure => failure.id !== id)
+    });
+  }
+
+  subscribe(listener: (config: FaultInjectionConfig) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Waits out the simulated latency and reports whether the request should fail
+  async simulate(operation: ApiOperation, targetId?: string): Promise<FaultOutcome> {
+    const { enabled, latency, errorRates, timeoutMs } = this.config;
+    if (!enabled) return 'ok';
+
+    const min = Math.max(0, Math.min(latency.min, latency.max));
+    const max = Math.max(0, latency.min, latency.max);
+    const duration = min + this.random() * (max - min);
+    const forced = this.takeForcedFailure(operation, targetId);
+
+    if (forced === 'timeout' || (timeoutMs !== null && duration > timeoutMs)) {
+      await wait(timeoutMs ?? duration);
+      return 'timeout';
+    }
+
+    await wait(duration);
+
+    if (forced === 'error' || this.random() < errorRates[operation]) {
+      return 'error';
+    }
+    return 'ok';
+  }
+
+  private takeForcedFailure(operation: ApiOperation, targetId?: string): FaultKind | null {
+    const match = this.config.forcedFailures.find(failure =>
+      (!failure.operation || failure.operation === operation) &&
+      (!failure.targetId || failure.targetId === targetId)
+    );
+    if (!match) return null;
+
+    if (match.times !== undefined) {
+      const remaining = match.times - 1;
+      this.configure({
+        forcedFailures: remaining > 0
+          ? this.config.forcedFailures.map(failure =>
+              failure.id === match.id ? { ...failure, times: remaining } : failure
+            )
+          : this.config.forcedFailures.filter(failure => failure.id !== match.id)
+      });
+    }
+
+    return match.kind;
+  }
+
+  private createRandom() {
+    return this.config.seed === null ? Math.random : createSeededRandom(this.config.seed);
+  }
+
+  // Settings persist across reloads so a failure scenario can be set up once
+  private load(): FaultInjectionConfig {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const stored = JSON.parse(raw) as Partial<FaultInjectionConfig>;
+        // Merge rates too so operations added since the settings were saved get defaults
+        return {
+          ...DEFAULT_FAULT_INJECTION_CONFIG,
+          ...stored,
+          errorRates: { ...DEFAULT_FAULT_INJECTION_CONFIG.errorRates, ...stored.errorRates }
+        };
+      }
+    } catch {
+      // Ignore unavailable or corrupted storage and use the defaults
+    }
+    return DEFAULT_FAULT_INJECTION_CONFIG;
+  }
+
+  private commit() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    } catch {
+      // Persisting is best effort
+    }
+    this.listeners.forEach(listener => listener(this.config));
+  }
+}
+
+// Export singleton instance shared by the mock service and the dev panel
+export const faultInjector = new FaultInjector();
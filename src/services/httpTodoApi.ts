@@ -0,0 +1,411 @@
+// HTTP client for the todo REST API - mirrors TodoApiService against a real backend
+
+import {
+  Todo,
+  CreateTodoInput,
+  CreateTodoOptions,
+  UpdateTodoInput,
+  ApiResponse,
+  TodoApiClient,
+  Tag,
+  TagWithUsage,
+  CreateTagInput,
+  UpdateTagInput,
+  CreateSubtaskInput,
+  UpdateSubtaskInput,
+  Project,
+  ProjectWithCounts,
+  CreateProjectInput,
+  UpdateProjectInput,
+  TodoSort,
+  BulkUpdateTodosInput,
+  BatchOperation,
+  BatchMode,
+  BatchResult
+} from '@/types/todo';
+import { ApiError } from '@/services/apiError';
+import { reviveProject, reviveTag, reviveTodo } from '@/services/serialization';
+import { DEFAULT_TODO_SORT } from '@/lib/sorting';
+
+// Shape of error bodies: { success: false, message, code?, details? }
+interface ApiErrorBody {
+  success?: boolean;
+  message?: string;
+  code?: string;
+  details?: unknown;
+}
+
+interface RequestFallback {
+  message: string;
+  code: string;
+}
+
+export class HttpTodoApiService implements TodoApiClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  // GET /todos?sort=:field&order=:direction - Fetch all todos, sorted by the server
+  async getAllTodos(sort: TodoSort = DEFAULT_TODO_SORT): Promise<ApiResponse<Todo[]>> {
+    const query = new URLSearchParams({ sort: sort.field, order: sort.direction });
+    const response = await this.request<Todo[]>(`/todos?${query}`, { method: 'GET' }, {
+      message: 'Failed to fetch todos. Please check your connection.',
+      code: 'FETCH_ERROR'
+    });
+
+    return { ...response, data: response.data.map(reviveTodo) };
+  }
+
+  // POST /todos - Create a new todo
+  async createTodo(input: CreateTodoInput, { idempotencyKey }: CreateTodoOptions = {}): Promise<ApiResponse<Todo>> {
+    const response = await this.request<Todo>('/todos', {
+      method: 'POST',
+      body: JSON.stringify(input),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    }, {
+      message: 'Failed to create todo. Please try again.',
+      code: 'CREATE_ERROR'
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  // PUT /todos/:id - Update an existing todo
+  async updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>> {
+    const response = await this.request<Todo>(`/todos/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to update todo. Please try again.',
+      code: 'UPDATE_ERROR'
+    }).catch(error => {
+      // A version conflict carries the current todo, which needs reviving like any other
+      if (error instanceof ApiError && error.code === 'CONFLICT' && error.details?.todo) {
+        error.details = { ...error.details, todo: reviveTodo(error.details.todo) };
+      }
+      throw error;
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  // DELETE /todos/:id - Move a todo to the trash
+  async deleteTodo(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/todos/${encodeURIComponent(id)}`, { method: 'DELETE' }, {
+      message: 'Failed to delete todo. Please try again.',
+      code: 'DELETE_ERROR'
+    });
+  }
+
+  // POST /todos/reorder - Move todos after another one (or to the top)
+  async reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>> {
+    const response = await this.request<Todo[]>('/todos/reorder', {
+      method: 'POST',
+      body: JSON.stringify({ ids, afterId })
+    }, {
+      message: 'Failed to reorder todos. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: response.data.map(reviveTodo) };
+  }
+
+  // POST /todos/bulk-update - Apply the same changes to several todos in one request
+  async bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>> {
+    const response = await this.request<Todo[]>('/todos/bulk-update', {
+      method: 'POST',
+      body: JSON.stringify({ ids, changes: input })
+    }, {
+      message: 'Failed to update todos. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: response.data.map(reviveTodo) };
+  }
+
+  // POST /todos/bulk-delete - Move several todos to the trash in one request
+  async bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>> {
+    return this.request<null>('/todos/bulk-delete', {
+      method: 'POST',
+      body: JSON.stringify({ ids })
+    }, {
+      message: 'Failed to delete todos. Please try again.',
+      code: 'DELETE_ERROR'
+    });
+  }
+
+  // POST /todos/batch - Run mixed create/update/delete operations, each with its own result
+  async batch(operations: BatchOperation[], mode: BatchMode = 'atomic'): Promise<ApiResponse<BatchResult[]>> {
+    const response = await this.request<BatchResult[]>('/todos/batch', {
+      method: 'POST',
+      body: JSON.stringify({ operations, mode })
+    }, {
+      message: 'Failed to save changes. Please try again.',
+      code: 'BATCH_FAILED'
+    });
+
+    return {
+      ...response,
+      data: response.data.map(result =>
+        result.ok && result.data ? { ...result, data: reviveTodo(result.data) } : result
+      )
+    };
+  }
+
+  // GET /trash - Fetch trashed todos
+  async getTrashedTodos(): Promise<ApiResponse<Todo[]>> {
+    const response = await this.request<Todo[]>('/trash', { method: 'GET' }, {
+      message: 'Failed to fetch trash. Please check your connection.',
+      code: 'FETCH_ERROR'
+    });
+
+    return { ...response, data: response.data.map(reviveTodo) };
+  }
+
+  // POST /trash/restore - Move todos back out of the trash
+  async restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>> {
+    const response = await this.request<Todo[]>('/trash/restore', {
+      method: 'POST',
+      body: JSON.stringify({ ids })
+    }, {
+      message: 'Failed to restore todos. Please try again.',
+      code: 'RESTORE_ERROR'
+    });
+
+    return { ...response, data: response.data.map(reviveTodo) };
+  }
+
+  // DELETE /trash/:id - Permanently delete a trashed todo
+  async purgeTodo(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/trash/${encodeURIComponent(id)}`, { method: 'DELETE' }, {
+      message: 'Failed to delete todo permanently. Please try again.',
+      code: 'PURGE_ERROR'
+    });
+  }
+
+  // DELETE /trash - Permanently delete everything in the trash
+  async emptyTrash(): Promise<ApiResponse<null>> {
+    return this.request<null>('/trash', { method: 'DELETE' }, {
+      message: 'Failed to empty trash. Please try again.',
+      code: 'PURGE_ERROR'
+    });
+  }
+
+  // GET /tags - Fetch all tags with usage counts
+  async getTags(): Promise<ApiResponse<TagWithUsage[]>> {
+    const response = await this.request<TagWithUsage[]>('/tags', { method: 'GET' }, {
+      message: 'Failed to fetch tags. Please check your connection.',
+      code: 'FETCH_ERROR'
+    });
+
+    return { ...response, data: response.data.map(tag => ({ ...reviveTag(tag), usageCount: tag.usageCount })) };
+  }
+
+  // POST /tags - Create a tag
+  async createTag(input: CreateTagInput): Promise<ApiResponse<Tag>> {
+    const response = await this.request<Tag>('/tags', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to create tag. Please try again.',
+      code: 'CREATE_ERROR'
+    });
+
+    return { ...response, data: reviveTag(response.data) };
+  }
+
+  // PUT /tags/:id - Rename and/or recolor a tag
+  async updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>> {
+    const response = await this.request<Tag>(`/tags/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to update tag. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTag(response.data) };
+  }
+
+  // POST /tags/merge - Fold the source tags into the target tag
+  async mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>> {
+    const response = await this.request<Tag>('/tags/merge', {
+      method: 'POST',
+      body: JSON.stringify({ sourceIds, targetId })
+    }, {
+      message: 'Failed to merge tags. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTag(response.data) };
+  }
+
+  // DELETE /tags/:id - Delete a tag and remove it from every todo
+  async deleteTag(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/tags/${encodeURIComponent(id)}`, { method: 'DELETE' }, {
+      message: 'Failed to delete tag. Please try again.',
+      code: 'DELETE_ERROR'
+    });
+  }
+
+  // GET /projects - Fetch all projects with their open todo counts
+  async getProjects(): Promise<ApiResponse<ProjectWithCounts[]>> {
+    const response = await this.request<ProjectWithCounts[]>('/projects', { method: 'GET' }, {
+      message: 'Failed to fetch projects. Please check your connection.',
+      code: 'FETCH_ERROR'
+    });
+
+    return {
+      ...response,
+      data: response.data.map(project => ({ ...reviveProject(project), activeCount: project.activeCount }))
+    };
+  }
+
+  // POST /projects - Create a project
+  async createProject(input: CreateProjectInput): Promise<ApiResponse<Project>> {
+    const response = await this.request<Project>('/projects', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to create project. Please try again.',
+      code: 'CREATE_ERROR'
+    });
+
+    return { ...response, data: reviveProject(response.data) };
+  }
+
+  // PUT /projects/:id - Rename, restyle, archive or unarchive a project
+  async updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>> {
+    const response = await this.request<Project>(`/projects/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to update project. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveProject(response.data) };
+  }
+
+  // DELETE /projects/:id - Delete a project, moving its todos to the Inbox
+  async deleteProject(id: string): Promise<ApiResponse<null>> {
+    return this.request<null>(`/projects/${encodeURIComponent(id)}`, { method: 'DELETE' }, {
+      message: 'Failed to delete project. Please try again.',
+      code: 'DELETE_ERROR'
+    });
+  }
+
+  // POST /todos/:id/subtasks - Append a subtask
+  async addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>> {
+    const response = await this.request<Todo>(this.subtasksPath(todoId), {
+      method: 'POST',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to add subtask. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  // PUT /todos/:id/subtasks/:subtaskId - Rename or toggle a subtask
+  async updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>> {
+    const response = await this.request<Todo>(`${this.subtasksPath(todoId)}/${encodeURIComponent(subtaskId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    }, {
+      message: 'Failed to update subtask. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  // POST /todos/:id/subtasks/reorder - Put subtasks in the given order
+  async reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>> {
+    const response = await this.request<Todo>(`${this.subtasksPath(todoId)}/reorder`, {
+      method: 'POST',
+      body: JSON.stringify({ ids: subtaskIds, version })
+    }, {
+      message: 'Failed to reorder subtasks. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  // DELETE /todos/:id/subtasks/:subtaskId?version=:version - Remove a subtask
+  async removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>> {
+    const query = new URLSearchParams({ version: String(version) });
+    const response = await this.request<Todo>(`${this.subtasksPath(todoId)}/${encodeURIComponent(subtaskId)}?${query}`, {
+      method: 'DELETE'
+    }, {
+      message: 'Failed to remove subtask. Please try again.',
+      code: 'UPDATE_ERROR'
+    });
+
+    return { ...response, data: reviveTodo(response.data) };
+  }
+
+  private subtasksPath(todoId: string) {
+    return `/todos/${encodeURIComponent(todoId)}/subtasks`;
+  }
+
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    fallback: RequestFallback
+  ): Promise<ApiResponse<T>> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...init.headers
+        }
+      });
+    } catch (error) {
+      // fetch only rejects on network failures (offline, DNS, CORS)
+      throw new ApiError({ message: fallback.message, code: 'NETWORK_ERROR', details: { cause: error } });
+    }
+
+    const body = await this.parseBody(response);
+
+    if (!response.ok) {
+      const errorBody = (body ?? {}) as ApiErrorBody;
+      throw new ApiError({
+        message: errorBody.message || fallback.message,
+        code: errorBody.code || fallback.code,
+        details: errorBody.details ?? { status: response.status },
+        status: response.status
+      });
+    }
+
+    if (!body || typeof body !== 'object' || !('data' in body) || body.success !== true) {
+      throw new ApiError({
+        message: (body as ApiErrorBody | null)?.message || fallback.message,
+        code: (body as ApiErrorBody | null)?.code || 'INVALID_RESPONSE',
+        details: { status: response.status },
+        status: response.status
+      });
+    }
+
+    return body as unknown as ApiResponse<T>;
+  }
+
+  private async parseBody(response: Response): Promise<Record<string, unknown> | null> {
+    const text = await response.text();
+    if (!text) return null;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,544 @@
+// Offline-first wrapper for the HTTP backend: todo writes that can't reach the server because the
+// network is down are applied locally, kept in a durable outbox and replayed in order once it's back
+
+import {
+  ApiResponse,
+  BatchMode,
+  BatchOperation,
+  BatchResult,
+  BulkUpdateTodosInput,
+  CreateProjectInput,
+  CreateSubtaskInput,
+  CreateTagInput,
+  CreateTodoInput,
+  CreateTodoOptions,
+  OutboxEntry,
+  Project,
+  ProjectWithCounts,
+  Tag,
+  TagWithUsage,
+  Todo,
+  TodoApiClient,
+  TodoPriority,
+  TodoSort,
+  UpdateProjectInput,
+  UpdateSubtaskInput,
+  UpdateTagInput,
+  UpdateTodoInput
+} from '@/types/todo';
+import { OutboxRepository, TodoRepository } from '@/services/storage';
+import { ApiError, isNetworkError, isTransientError } from '@/services/apiError';
+import { rankForNewTodo } from '@/lib/ranking';
+import { sortTodos } from '@/lib/sorting';
+import { applyTodoUpdate } from '@/lib/todoUpdates';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  // Replaying the outbox right now
+  isSyncing: boolean;
+  pendingCount: number;
+  // Last time the server confirmed this tab's data with nothing left to send
+  lastSyncedAt: Date | null;
+  // Why the most recent queued change the server refused was dropped
+  lastError: string | null;
+}
+
+// How long to wait before replaying again while changes are pending
+const RETRY_DELAY = 15 * 1000;
+
+// Replays a queued change gets when the server keeps failing it, before it is given up on
+const MAX_SYNC_ATTEMPTS = 5;
+
+const LOCK_NAME = 'do-dash-pro:outbox';
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Holds the outbox lock while replaying so two tabs never send the same entries
+const withOutboxLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(LOCK_NAME, task)
+    : task();
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const bySequence = (a: OutboxEntry, b: OutboxEntry) => a.sequence - b.sequence;
+
+// The todo the service would create, under a local id until the create is replayed
+const createLocalTodo = (input: CreateTodoInput): Todo => {
+  const now = new Date();
+  return {
+    id: `local-${generateId()}`,
+    title: input.title.trim(),
+    description: input.description?.trim() || '',
+    completed: false,
+    priority: input.priority ?? TodoPriority.NONE,
+    projectId: input.projectId,
+    tags: input.tags ?? [],
+    dueDate: input.dueDate,
+    dueTime: input.dueDate ? input.dueTime : undefined,
+    subtasks: [],
+    recurrence: input.recurrence,
+    rank: rankForNewTodo(now),
+    version: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+const applyEntry = (todos: Todo[], { operation, todo }: OutboxEntry): Todo[] => {
+  switch (operation.type) {
+    case 'create':
+      return [...todos.filter(candidate => candidate.id !== todo.id), todo];
+    case 'update':
+      return todos.map(candidate =>
+        candidate.id === operation.id ? applyTodoUpdate(candidate, operation.input) : candidate
+      );
+    case 'delete':
+      return todos.filter(candidate => candidate.id !== operation.id);
+  }
+};
+
+const runOperation = async (
+  client: TodoApiClient,
+  { operation, idempotencyKey }: OutboxEntry
+): Promise<Todo | null> => {
+  switch (operation.type) {
+    case 'create':
+      return (await client.createTodo(operation.input, { idempotencyKey })).data;
+    case 'update':
+      return (await client.updateTodo(operation.id, operation.input)).data;
+    case 'delete':
+      await client.deleteTodo(operation.id);
+      return null;
+  }
+};
+
+const queuedResponse = <T>(data: T): ApiResponse<T> => ({
+  data,
+  message: 'Saved on this device; it will sync when the connection is back',
+  success: true
+});
+
+export class OfflineTodoApi implements TodoApiClient {
+  private entries: OutboxEntry[] = [];
+  // Todos as last returned by the server with the queued writes applied; reads fall back to them
+  // offline. They are cached so they outlive a reload.
+  private todos: Todo[] | null = null;
+  private cacheWrite: Promise<void> = Promise.resolve();
+  private unsavedTodos: Todo[] | null = null;
+  private status: SyncStatus = {
+    isOnline: !isBrowserOffline(),
+    isSyncing: false,
+    pendingCount: 0,
+    lastSyncedAt: null,
+    lastError: null
+  };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private readonly ready: Promise<void>;
+  private isOutboxLoaded = false;
+  private replaying: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly client: TodoApiClient,
+    private readonly outbox: OutboxRepository,
+    private readonly cache: TodoRepository
+  ) {
+    // Without a readable outbox writes still go straight to the server
+    this.ready = Promise.all([
+      this.reloadEntries()
+        .then(() => {
+          this.isOutboxLoaded = true;
+        })
+        .catch(error => console.error('Failed to load the offline outbox:', error)),
+      this.loadCache().catch(error => console.error('Failed to load the offline todo cache:', error))
+    ]).then(() => undefined);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.setStatus({ isOnline: true });
+        void this.sync();
+      });
+      window.addEventListener('offline', () => this.setStatus({ isOnline: false }));
+    }
+    // Changes queued before the last reload go out as soon as possible
+    void this.sync();
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Replays the outbox in order, stopping at the first change that still can't reach the server.
+  // Never rejects: it runs in the background, and storage failures are only logged.
+  sync(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.ready
+        .then(() => (this.isOutboxLoaded ? withOutboxLock(() => this.replay()) : undefined))
+        .catch(error => console.error('Failed to sync the offline outbox:', error))
+        .finally(() => {
+          this.replaying = null;
+        });
+    }
+    return this.replaying;
+  }
+
+  async getAllTodos(sort?: TodoSort): Promise<ApiResponse<Todo[]>> {
+    await this.ready;
+    // Another tab may have queued changes since this one last looked
+    if (this.isOutboxLoaded) await this.reloadEntries();
+    if (this.entries.length > 0 && !isBrowserOffline()) await this.sync();
+
+    try {
+      const response = await this.client.getAllTodos(sort);
+      // Changes still waiting in the outbox stay visible on top of the server's list
+      const todos = this.entries.reduce(applyEntry, response.data);
+      this.setTodos(todos);
+      this.markReachable();
+      return { ...response, data: sortTodos(todos, sort) };
+    } catch (error) {
+      if (!isNetworkError(error) || !this.todos) throw error;
+      this.setStatus({ isOnline: false });
+      return { data: sortTodos(this.todos, sort), message: 'Showing the todos saved on this device', success: true };
+    }
+  }
+
+  // A create that timed out may still have been saved, so its replay reuses the same idempotency key
+  async createTodo(input: CreateTodoInput, options?: CreateTodoOptions): Promise<ApiResponse<Todo>> {
+    const idempotencyKey = options?.idempotencyKey ?? generateId();
+    return this.sendOrQueue(
+      async () => this.remember(await this.client.createTodo(input, { idempotencyKey })),
+      async () => {
+        const todo = createLocalTodo(input);
+        await this.enqueue({ type: 'create', input }, { todo, idempotencyKey });
+        return queuedResponse(todo);
+      }
+    );
+  }
+
+  async updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>> {
+    return this.sendOrQueue(
+      async () => this.remember(await this.client.updateTodo(id, input)),
+      async () => {
+        const current = this.findLocal(id);
+        await this.enqueue({ type: 'update', id, input });
+        return queuedResponse(applyTodoUpdate(current, input));
+      }
+    );
+  }
+
+  async deleteTodo(id: string): Promise<ApiResponse<null>> {
+    return this.sendOrQueue(
+      async () => this.forget([id], await this.client.deleteTodo(id)),
+      async () => {
+        this.findLocal(id);
+        await this.enqueue({ type: 'delete', id });
+        return queuedResponse(null);
+      }
+    );
+  }
+
+  async reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.reorderTodos(ids, afterId)));
+  }
+
+  async bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.bulkUpdateTodos(ids, input)));
+  }
+
+  async bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>> {
+    return this.forget(ids, await this.sendAfterOutbox(() => this.client.bulkDeleteTodos(ids)));
+  }
+
+  async batch(operations: BatchOperation[], mode?: BatchMode): Promise<ApiResponse<BatchResult[]>> {
+    const response = await this.sendAfterOutbox(() => this.client.batch(operations, mode));
+    response.data.forEach((result, index) => {
+      const operation = operations[index];
+      if (!result.ok) return;
+      if (operation.type === 'delete') this.drop([operation.id]);
+      else this.keep([result.data]);
+    });
+    return response;
+  }
+
+  getTrashedTodos(): Promise<ApiResponse<Todo[]>> {
+    return this.client.getTrashedTodos();
+  }
+
+  async restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.restoreTodos(ids)));
+  }
+
+  purgeTodo(id: string): Promise<ApiResponse<null>> {
+    return this.sendAfterOutbox(() => this.client.purgeTodo(id));
+  }
+
+  emptyTrash(): Promise<ApiResponse<null>> {
+    return this.sendAfterOutbox(() => this.client.emptyTrash());
+  }
+
+  getTags(): Promise<ApiResponse<TagWithUsage[]>> {
+    return this.client.getTags();
+  }
+
+  createTag(input: CreateTagInput): Promise<ApiResponse<Tag>> {
+    return this.sendAfterOutbox(() => this.client.createTag(input));
+  }
+
+  updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>> {
+    return this.sendAfterOutbox(() => this.client.updateTag(id, input));
+  }
+
+  mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>> {
+    return this.sendAfterOutbox(() => this.client.mergeTags(sourceIds, targetId));
+  }
+
+  deleteTag(id: string): Promise<ApiResponse<null>> {
+    return this.sendAfterOutbox(() => this.client.deleteTag(id));
+  }
+
+  getProjects(): Promise<ApiResponse<ProjectWithCounts[]>> {
+    return this.client.getProjects();
+  }
+
+  createProject(input: CreateProjectInput): Promise<ApiResponse<Project>> {
+    return this.sendAfterOutbox(() => this.client.createProject(input));
+  }
+
+  updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>> {
+    return this.sendAfterOutbox(() => this.client.updateProject(id, input));
+  }
+
+  deleteProject(id: string): Promise<ApiResponse<null>> {
+    return this.sendAfterOutbox(() => this.client.deleteProject(id));
+  }
+
+  async addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.addSubtask(todoId, input)));
+  }
+
+  async updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.updateSubtask(todoId, subtaskId, input)));
+  }
+
+  async reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.reorderSubtasks(todoId, subtaskIds, version)));
+  }
+
+  async removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>> {
+    return this.remember(await this.sendAfterOutbox(() => this.client.removeSubtask(todoId, subtaskId, version)));
+  }
+
+  // Sends the write, or queues it when earlier changes are still waiting (their order must hold)
+  // or the network is down. Errors the server answers with, outages included, reach the caller
+  // as usual. The outbox lock is held throughout and the outbox re-read under it, so entries
+  // another tab queued are seen and its replays can't interleave.
+  private async sendOrQueue<T>(
+    send: () => Promise<ApiResponse<T>>,
+    queue: () => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    await this.ready;
+    // Without an outbox there is nowhere to queue the write, so it goes out as is
+    if (!this.isOutboxLoaded) return send();
+
+    return withOutboxLock(async () => {
+      await this.reloadEntries();
+      if (this.entries.length > 0 || isBrowserOffline()) return queue();
+
+      try {
+        const response = await send();
+        this.markReachable();
+        return response;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        this.setStatus({ isOnline: false });
+        return queue();
+      }
+    });
+  }
+
+  // Writes the outbox can't hold wait until it is empty, in this tab and the others: they must
+  // not overtake queued changes or name todos the server hasn't seen yet
+  private async sendAfterOutbox<T>(send: () => Promise<T>): Promise<T> {
+    await this.ready;
+    if (!this.isOutboxLoaded) return send();
+
+    await this.reloadEntries();
+    if (this.entries.length > 0 && !isBrowserOffline()) await this.sync();
+    return withOutboxLock(async () => {
+      await this.reloadEntries();
+      if (this.entries.length > 0) {
+        throw new ApiError({
+          message: "Some of your changes haven't synced yet. Try again once they have.",
+          code: 'SYNC_PENDING'
+        });
+      }
+      return send();
+    });
+  }
+
+  // Offline writes need the local copy of their todo to build the result from
+  private findLocal(id: string): Todo {
+    const todo = this.todos?.find(candidate => candidate.id === id);
+    if (!todo) {
+      throw new ApiError({
+        message: "You're offline and this task isn't available on this device",
+        code: 'OFFLINE_UNAVAILABLE'
+      });
+    }
+    return todo;
+  }
+
+  private async enqueue(operation: BatchOperation, extra: Pick<OutboxEntry, 'todo' | 'idempotencyKey'> = {}) {
+    const entry: OutboxEntry = {
+      id: generateId(),
+      sequence: Math.max(Date.now(), (this.entries[this.entries.length - 1]?.sequence ?? 0) + 1),
+      operation,
+      ...extra,
+      queuedAt: new Date()
+    };
+    await this.outbox.save(entry);
+    this.entries = [...this.entries, entry];
+    if (this.todos) this.setTodos(applyEntry(this.todos, entry));
+    this.setStatus({ pendingCount: this.entries.length });
+    this.scheduleRetry();
+  }
+
+  private async replay() {
+    await this.reloadEntries();
+    let [entry] = this.entries;
+    if (!entry || isBrowserOffline()) return;
+
+    this.setStatus({ isSyncing: true, lastError: null });
+    try {
+      while (entry) {
+        try {
+          const saved = await runOperation(this.client, entry);
+          if (entry.operation.type === 'create') await this.replaceLocalId(entry.todo.id, saved);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            this.setStatus({ isOnline: false });
+            this.scheduleRetry();
+            return;
+          }
+          // A server outage gets a few more tries; later changes wait behind it meanwhile
+          const failedAttempts = (entry.failedAttempts ?? 0) + 1;
+          if (isTransientError(error) && failedAttempts < MAX_SYNC_ATTEMPTS) {
+            await this.outbox.save({ ...entry, failedAttempts });
+            this.scheduleRetry();
+            return;
+          }
+          // The server refused it (e.g. a version conflict) or kept failing, so it is given up on
+          const message = error instanceof Error ? error.message : 'Unexpected error';
+          this.setStatus({ lastError: `${this.describe(entry)} couldn't be synced: ${message}` });
+          if (entry.operation.type === 'create') this.drop([entry.todo.id]);
+        }
+        await this.outbox.remove(entry.id);
+        // Re-read every round so entries queued meanwhile, here or in another tab, go out too
+        const remaining = (await this.outbox.list()).sort(bySequence);
+        this.setStatus({ pendingCount: remaining.length });
+        [entry] = remaining;
+      }
+    } finally {
+      this.setStatus({ isSyncing: false });
+      await this.reloadEntries();
+      this.markReachable();
+    }
+  }
+
+  // A todo created offline now has the server's id; queued changes to it must use that too
+  private async replaceLocalId(localId: string, saved: Todo) {
+    for (const entry of await this.outbox.list()) {
+      if ('id' in entry.operation && entry.operation.id === localId) {
+        await this.outbox.save({ ...entry, operation: { ...entry.operation, id: saved.id } });
+      }
+    }
+    this.drop([localId]);
+    this.keep([saved]);
+  }
+
+  private describe({ operation, todo }: OutboxEntry) {
+    const title = todo?.title ?? this.todos?.find(candidate => 'id' in operation && candidate.id === operation.id)?.title;
+    return title ? `"${title}"` : 'A change';
+  }
+
+  private async reloadEntries() {
+    this.entries = (await this.outbox.list()).sort(bySequence);
+    this.setStatus({ pendingCount: this.entries.length });
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.sync();
+    }, RETRY_DELAY);
+  }
+
+  private markReachable() {
+    if (this.entries.length > 0) return;
+    this.setStatus({ isOnline: true, lastSyncedAt: new Date() });
+  }
+
+  // Keeps the local copy in step with what the server saved
+  private keep(saved: Todo[]) {
+    if (!this.todos) return;
+    const savedIds = new Set(saved.map(todo => todo.id));
+    this.setTodos([...this.todos.filter(todo => !savedIds.has(todo.id)), ...saved]);
+  }
+
+  private drop(ids: string[]) {
+    if (this.todos) this.setTodos(this.todos.filter(todo => !ids.includes(todo.id)));
+  }
+
+  private async loadCache() {
+    const cached = await this.cache.list();
+    if (!this.todos && cached.length > 0) this.todos = cached;
+  }
+
+  // Snapshots are written one at a time; while one is being written only the newest waits. Only
+  // todos that differ from what the cache holds are written, so a refetch rewrites nothing new.
+  private setTodos(todos: Todo[]) {
+    this.todos = todos;
+    const isWriteQueued = this.unsavedTodos !== null;
+    this.unsavedTodos = todos;
+    if (isWriteQueued) return;
+
+    this.cacheWrite = this.cacheWrite
+      .then(async () => {
+        const snapshot = this.unsavedTodos;
+        this.unsavedTodos = null;
+        const ids = new Set(snapshot.map(todo => todo.id));
+        const cached = new Map<string, string>();
+        for (const todo of await this.cache.list()) {
+          if (ids.has(todo.id)) cached.set(todo.id, JSON.stringify(todo));
+          else await this.cache.remove(todo.id);
+        }
+        for (const todo of snapshot) {
+          if (cached.get(todo.id) !== JSON.stringify(todo)) await this.cache.save(todo);
+        }
+      })
+      .catch(error => console.error('Failed to cache todos for offline use:', error));
+  }
+
+  private remember<T extends Todo | Todo[]>(response: ApiResponse<T>): ApiResponse<T> {
+    this.keep(Array.isArray(response.data) ? response.data : [response.data]);
+    return response;
+  }
+
+  private forget<T>(ids: string[], response: ApiResponse<T>): ApiResponse<T> {
+    this.drop(ids);
+    return response;
+  }
+
+  private setStatus(patch: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
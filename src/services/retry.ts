@@ -0,0 +1,280 @@
+// Retries transient API failures with exponential backoff, and reports each retry while it runs
+
+import {
+  ApiResponse,
+  BatchMode,
+  BatchOperation,
+  BatchResult,
+  BulkUpdateTodosInput,
+  CreateProjectInput,
+  CreateSubtaskInput,
+  CreateTagInput,
+  CreateTodoInput,
+  CreateTodoOptions,
+  Project,
+  ProjectWithCounts,
+  Tag,
+  TagWithUsage,
+  Todo,
+  TodoApiClient,
+  TodoSort,
+  UpdateProjectInput,
+  UpdateSubtaskInput,
+  UpdateTagInput,
+  UpdateTodoInput
+} from '@/types/todo';
+import { ApiError, isTransientError } from '@/services/apiError';
+import { sortSubtasks } from '@/lib/subtasks';
+
+export interface RetryPolicy {
+  // Attempts per request, the first one included
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// A request waiting for (or making) another attempt after a transient failure
+export interface RetryState {
+  id: string;
+  // What the request does, e.g. "Saving the task"
+  label: string;
+  // The attempt under way, 2 being the first retry
+  attempt: number;
+  attempts: number;
+  error: ApiError;
+}
+
+// Full jitter: a random wait up to the exponential cap, so clients that failed together spread out
+export const getRetryDelay = (policy: RetryPolicy, retry: number, random = Math.random) =>
+  random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+
+// What a field holds once saved: titles are trimmed and tag names may change case
+const comparable = (key: string, value: unknown) => {
+  if (value === null || value === undefined) return null;
+  if (key === 'tags') return JSON.stringify((value as string[]).map(tag => tag.toLowerCase()).sort());
+  return JSON.stringify(typeof value === 'string' ? value.trim() : value);
+};
+
+// When the response to an update is lost although the update was saved, its retry conflicts with
+// a todo exactly one version ahead that already holds every field the update sent
+const savedUpdate = (input: UpdateTodoInput, error: ApiError): ApiResponse<Todo> | null => {
+  const todo: Todo | undefined = error.code === 'CONFLICT' ? error.details?.todo : undefined;
+  const isSaved = todo?.version === input.version + 1 && Object.entries(input).every(
+    ([key, value]) => key === 'version' || comparable(key, value) === comparable(key, todo[key])
+  );
+  return isSaved ? { data: todo, message: 'Todo updated successfully', success: true } : null;
+};
+
+// Subtask changes conflict the same way, with a parent one version ahead that already holds them
+const savedSubtaskChange = (
+  version: number,
+  isSaved: (todo: Todo) => boolean,
+  message: string,
+  error: ApiError
+): ApiResponse<Todo> | null => {
+  const todo: Todo | undefined = error.code === 'CONFLICT' ? error.details?.todo : undefined;
+  return todo?.version === version + 1 && isSaved(todo) ? { data: todo, message, success: true } : null;
+};
+
+const holdsSubtaskUpdate = (subtaskId: string, { version: _version, ...input }: UpdateSubtaskInput) => (todo: Todo) => {
+  const subtask = todo.subtasks.find(candidate => candidate.id === subtaskId);
+  return Boolean(subtask) && Object.entries(input).every(([key, value]) => comparable(key, value) === comparable(key, subtask[key]));
+};
+
+// Listed subtasks come first, in the listed order
+const holdsSubtaskOrder = (subtaskIds: string[]) => (todo: Todo) =>
+  sortSubtasks(todo.subtasks).slice(0, subtaskIds.length).every((subtask, index) => subtask.id === subtaskIds[index]);
+
+// Likewise a retried delete finds nothing left to delete
+const savedDelete = (error: ApiError): ApiResponse<null> | null =>
+  error.code === 'NOT_FOUND' ? { data: null, message: 'Deleted successfully', success: true } : null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class RetryTracker {
+  private states: RetryState[] = [];
+  private listeners = new Set<(states: RetryState[]) => void>();
+
+  getStates(): RetryState[] {
+    return this.states;
+  }
+
+  subscribe(listener: (states: RetryState[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  set(state: RetryState) {
+    this.commit([...this.states.filter(candidate => candidate.id !== state.id), state]);
+  }
+
+  clear(id: string) {
+    if (this.states.some(state => state.id === id)) {
+      this.commit(this.states.filter(state => state.id !== id));
+    }
+  }
+
+  private commit(states: RetryState[]) {
+    this.states = states;
+    this.listeners.forEach(listener => listener(states));
+  }
+}
+
+export const retryTracker = new RetryTracker();
+
+// Reads are retried without a label: they mostly run in the background, so nobody needs telling.
+// `recover` sees the errors of retries and returns a result when one shows an earlier attempt
+// went through after all.
+export const withRetry = async <T>(
+  policy: RetryPolicy,
+  label: string | null,
+  request: () => Promise<T>,
+  recover?: (error: ApiError) => T | null
+): Promise<T> => {
+  const id = generateId();
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const recovered = attempt > 1 && recover && error instanceof ApiError ? recover(error) : null;
+        if (recovered) return recovered;
+        if (attempt >= policy.attempts || !isTransientError(error)) throw error;
+        if (label) retryTracker.set({ id, label, attempt: attempt + 1, attempts: policy.attempts, error });
+        await wait(getRetryDelay(policy, attempt));
+      }
+    }
+  } finally {
+    retryTracker.clear(id);
+  }
+};
+
+// Wraps a client so requests that are safe to repeat are retried under `policy`. Creates get an
+// idempotency key so a retry can't add the todo twice, and updates and deletes whose lost first
+// attempt was saved after all succeed with what their retry finds, as do subtask edits and moves.
+// The rest go out once: batches (their creates carry no key), tag and project creates, tag merges,
+// adding a subtask (each would happen twice), and restores and subtask removals (their retry can't
+// return what the first did).
+export class RetryingTodoApi implements TodoApiClient {
+  constructor(
+    private readonly client: TodoApiClient,
+    private readonly policy: RetryPolicy
+  ) {}
+
+  getAllTodos(sort?: TodoSort): Promise<ApiResponse<Todo[]>> {
+    return this.retry(null, () => this.client.getAllTodos(sort));
+  }
+
+  createTodo(input: CreateTodoInput, options?: CreateTodoOptions): Promise<ApiResponse<Todo>> {
+    const idempotencyKey = options?.idempotencyKey ?? generateId();
+    return this.retry('Creating the task', () => this.client.createTodo(input, { idempotencyKey }));
+  }
+
+  updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>> {
+    return this.retry('Saving the task', () => this.client.updateTodo(id, input), error => savedUpdate(input, error));
+  }
+
+  deleteTodo(id: string): Promise<ApiResponse<null>> {
+    return this.retry('Deleting the task', () => this.client.deleteTodo(id), savedDelete);
+  }
+
+  reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>> {
+    return this.retry('Moving tasks', () => this.client.reorderTodos(ids, afterId));
+  }
+
+  bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>> {
+    return this.retry('Updating tasks', () => this.client.bulkUpdateTodos(ids, input));
+  }
+
+  bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>> {
+    return this.retry('Deleting tasks', () => this.client.bulkDeleteTodos(ids), savedDelete);
+  }
+
+  batch(operations: BatchOperation[], mode?: BatchMode): Promise<ApiResponse<BatchResult[]>> {
+    return this.client.batch(operations, mode);
+  }
+
+  getTrashedTodos(): Promise<ApiResponse<Todo[]>> {
+    return this.retry(null, () => this.client.getTrashedTodos());
+  }
+
+  restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>> {
+    return this.client.restoreTodos(ids);
+  }
+
+  purgeTodo(id: string): Promise<ApiResponse<null>> {
+    return this.retry('Deleting the task', () => this.client.purgeTodo(id), savedDelete);
+  }
+
+  emptyTrash(): Promise<ApiResponse<null>> {
+    return this.retry('Emptying the trash', () => this.client.emptyTrash());
+  }
+
+  getTags(): Promise<ApiResponse<TagWithUsage[]>> {
+    return this.retry(null, () => this.client.getTags());
+  }
+
+  createTag(input: CreateTagInput): Promise<ApiResponse<Tag>> {
+    return this.client.createTag(input);
+  }
+
+  updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>> {
+    return this.retry('Saving the tag', () => this.client.updateTag(id, input));
+  }
+
+  mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>> {
+    return this.client.mergeTags(sourceIds, targetId);
+  }
+
+  deleteTag(id: string): Promise<ApiResponse<null>> {
+    return this.retry('Deleting the tag', () => this.client.deleteTag(id), savedDelete);
+  }
+
+  getProjects(): Promise<ApiResponse<ProjectWithCounts[]>> {
+    return this.retry(null, () => this.client.getProjects());
+  }
+
+  createProject(input: CreateProjectInput): Promise<ApiResponse<Project>> {
+    return this.client.createProject(input);
+  }
+
+  updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>> {
+    return this.retry('Saving the project', () => this.client.updateProject(id, input));
+  }
+
+  deleteProject(id: string): Promise<ApiResponse<null>> {
+    return this.retry('Deleting the project', () => this.client.deleteProject(id), savedDelete);
+  }
+
+  addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.client.addSubtask(todoId, input);
+  }
+
+  updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>> {
+    return this.retry(
+      'Saving the subtask',
+      () => this.client.updateSubtask(todoId, subtaskId, input),
+      error => savedSubtaskChange(input.version, holdsSubtaskUpdate(subtaskId, input), 'Subtask updated successfully', error)
+    );
+  }
+
+  reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>> {
+    return this.retry(
+      'Moving subtasks',
+      () => this.client.reorderSubtasks(todoId, subtaskIds, version),
+      error => savedSubtaskChange(version, holdsSubtaskOrder(subtaskIds), 'Subtasks reordered successfully', error)
+    );
+  }
+
+  removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>> {
+    return this.client.removeSubtask(todoId, subtaskId, version);
+  }
+
+  private retry<T>(label: string | null, request: () => Promise<T>, recover?: (error: ApiError) => T | null): Promise<T> {
+    return withRetry(this.policy, label, request, recover);
+  }
+}
@@ -0,0 +1,34 @@
+// Helpers for turning JSON payloads back into typed domain objects
+
+import { Project, Tag, Todo, TodoPriority } from '@/types/todo';
+import { rankForNewTodo } from '@/lib/ranking';
+
+// JSON has no Date type, so timestamps come back as ISO strings. Fields added
+// after a todo was stored get their defaults here.
+export const reviveTodo = (raw: Todo): Todo => ({
+  ...raw,
+  priority: raw.priority ?? TodoPriority.NONE,
+  tags: raw.tags ?? [],
+  subtasks: raw.subtasks ?? [],
+  rank: raw.rank ?? rankForNewTodo(raw.createdAt),
+  version: raw.version ?? 1,
+  createdAt: new Date(raw.createdAt),
+  dueDate: raw.dueDate ? new Date(raw.dueDate) : undefined,
+  dueTime: raw.dueTime || undefined,
+  updatedAt: new Date(raw.updatedAt),
+  // Completed todos stored before completion times were tracked use their last update
+  completedAt: raw.completedAt || raw.completed ? new Date(raw.completedAt ?? raw.updatedAt) : undefined,
+  deletedAt: raw.deletedAt ? new Date(raw.deletedAt) : undefined
+});
+
+export const reviveTag = (raw: Tag): Tag => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt)
+});
+
+export const reviveProject = (raw: Project): Project => ({
+  ...raw,
+  archived: raw.archived ?? false,
+  createdAt: new Date(raw.createdAt),
+  updatedAt: new Date(raw.updatedAt)
+});
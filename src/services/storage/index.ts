@@ -0,0 +1,84 @@
+// Factory for the configured storage backend
+
+import { reviveProject, reviveTag, reviveTodo } from '@/services/serialization';
+import { InMemoryRepository } from './memoryRepository';
+import { LocalStorageRepository } from './localStorageRepository';
+import { IndexedDbRepository } from './indexedDbRepository';
+import { StoreName } from './indexedDb';
+import { seedProjects, seedTags, seedTodos } from './seedData';
+import {
+  Entity,
+  OutboxRepository,
+  ProjectRepository,
+  Repository,
+  StorageBackend,
+  TagRepository,
+  TodoRepository
+} from './repository';
+
+interface CollectionDefinition<T> {
+  storeName: StoreName;
+  revive: (raw: T) => T;
+  seed: T[];
+}
+
+// Fall back to memory when the browser blocks persistent storage (e.g. some private modes)
+const isAvailable = (backend: StorageBackend) => {
+  try {
+    switch (backend) {
+      case 'localStorage':
+        return typeof localStorage !== 'undefined';
+      case 'indexedDB':
+        return typeof indexedDB !== 'undefined';
+      default:
+        return true;
+    }
+  } catch {
+    return false;
+  }
+};
+
+const createRepository = <T extends Entity>(
+  backend: StorageBackend,
+  { storeName, revive, seed }: CollectionDefinition<T>
+): Repository<T> => {
+  if (!isAvailable(backend)) {
+    console.warn(`Storage backend "${backend}" is unavailable, falling back to memory.`);
+    return new InMemoryRepository(seed);
+  }
+
+  switch (backend) {
+    case 'localStorage':
+      return new LocalStorageRepository(`do-dash-pro:${storeName}`, revive, seed);
+    case 'indexedDB':
+      return new IndexedDbRepository(storeName, revive, seed);
+    default:
+      return new InMemoryRepository(seed);
+  }
+};
+
+export const createTodoRepository = (backend: StorageBackend): TodoRepository =>
+  createRepository(backend, { storeName: 'todos', revive: reviveTodo, seed: seedTodos });
+
+export const createTagRepository = (backend: StorageBackend): TagRepository =>
+  createRepository(backend, { storeName: 'tags', revive: reviveTag, seed: seedTags });
+
+export const createProjectRepository = (backend: StorageBackend): ProjectRepository =>
+  createRepository(backend, { storeName: 'projects', revive: reviveProject, seed: seedProjects });
+
+// The outbox always lives in IndexedDB (or memory where that is blocked) so queued writes survive reloads
+export const createOutboxRepository = (): OutboxRepository =>
+  createRepository('indexedDB', { storeName: 'outbox', revive: entry => entry, seed: [] });
+
+// The offline layer's copy of the server's todos, shown when a reload happens without a connection
+export const createTodoCacheRepository = (): TodoRepository =>
+  createRepository('indexedDB', { storeName: 'todoCache', revive: reviveTodo, seed: [] });
+
+export type {
+  Repository,
+  TodoRepository,
+  TagRepository,
+  ProjectRepository,
+  OutboxRepository,
+  StorageBackend
+} from './repository';
@@ -0,0 +1,72 @@
+// Shared IndexedDB connection for the persistent storage backends
+
+const DB_NAME = 'do-dash-pro';
+const DB_VERSION = 5;
+
+// Every object store the app uses; all are keyed by `id`
+const STORE_NAMES = ['todos', 'tags', 'projects', 'outbox', 'todoCache'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+interface DatabaseHandle {
+  db: IDBDatabase;
+  // Stores created during this page load, i.e. the first run on this browser
+  createdStores: Set<StoreName>;
+}
+
+let connection: Promise<DatabaseHandle> | null = null;
+
+export const openDatabase = (): Promise<DatabaseHandle> => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const createdStores = new Set<StoreName>();
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+            createdStores.add(name);
+          }
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading (or deleting) the database: step aside so it isn't blocked.
+        // The next call opens it again, which fails with VersionError once it has been upgraded.
+        db.onversionchange = () => {
+          db.close();
+          connection = null;
+        };
+        resolve({ db, createdStores });
+      };
+      request.onerror = () => {
+        connection = null;
+        reject(request.error?.name === 'VersionError'
+          ? new Error('The app was updated in another tab. Reload this tab to keep saving changes.')
+          : request.error);
+      };
+      // A tab of an older version still holds the database open and won't let go
+      request.onblocked = () => {
+        connection = null;
+        reject(new Error('The app was updated in another tab. Close the other tabs of this app and reload.'));
+      };
+    });
+  }
+
+  return connection;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const promisifyTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,53 @@
+// IndexedDB storage backend - Dates survive natively thanks to structured cloning
+
+import { Entity, Repository } from './repository';
+import { openDatabase, promisifyRequest, promisifyTransaction, StoreName } from './indexedDb';
+
+export class IndexedDbRepository<T extends Entity> implements Repository<T> {
+  private ready: Promise<void>;
+
+  constructor(
+    private readonly storeName: StoreName,
+    // Upgrades records written by older versions of the app
+    private readonly revive: (raw: T) => T,
+    initial: T[] = []
+  ) {
+    this.ready = openDatabase().then(async ({ db, createdStores }) => {
+      // Seed only when the store was just created so an emptied list stays empty
+      if (createdStores.has(storeName) && initial.length > 0) {
+        const transaction = db.transaction(storeName, 'readwrite');
+        initial.forEach(item => transaction.objectStore(storeName).put(item));
+        await promisifyTransaction(transaction);
+      }
+    });
+  }
+
+  async list(): Promise<T[]> {
+    const store = await this.store('readonly');
+    const items = await promisifyRequest(store.getAll() as IDBRequest<T[]>);
+    return items.map(this.revive);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const store = await this.store('readonly');
+    const item = await promisifyRequest(store.get(id) as IDBRequest<T | undefined>);
+    return item && this.revive(item);
+  }
+
+  async save(entity: T): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.put(entity));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+
+  // The connection is looked up on every call since another tab's upgrade closes it
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    await this.ready;
+    const { db } = await openDatabase();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
@@ -0,0 +1,57 @@
+// localStorage storage backend - the whole collection is kept as one JSON entry
+
+import { Entity, Repository } from './repository';
+
+export class LocalStorageRepository<T extends Entity> implements Repository<T> {
+  constructor(
+    private readonly key: string,
+    private readonly revive: (raw: T) => T,
+    initial: T[] = []
+  ) {
+    // Seed only on first run so an intentionally emptied list stays empty
+    if (localStorage.getItem(key) === null) {
+      this.write(initial);
+    }
+  }
+
+  async list(): Promise<T[]> {
+    return this.read();
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.read().find(item => item.id === id);
+  }
+
+  async save(entity: T): Promise<void> {
+    const items = this.read();
+    const index = items.findIndex(item => item.id === entity.id);
+
+    if (index === -1) {
+      items.push(entity);
+    } else {
+      items[index] = entity;
+    }
+
+    this.write(items);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter(item => item.id !== id));
+  }
+
+  private read(): T[] {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) return [];
+
+    try {
+      return (JSON.parse(raw) as T[]).map(this.revive);
+    } catch (error) {
+      console.error(`Corrupted data in localStorage key "${this.key}":`, error);
+      return [];
+    }
+  }
+
+  private write(items: T[]) {
+    localStorage.setItem(this.key, JSON.stringify(items));
+  }
+}
@@ -0,0 +1,27 @@
+// In-memory storage backend - data is lost on page reload
+
+import { Entity, Repository } from './repository';
+
+export class InMemoryRepository<T extends Entity> implements Repository<T> {
+  private items: Map<string, T>;
+
+  constructor(initial: T[] = []) {
+    this.items = new Map(initial.map(item => [item.id, item]));
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.items.values()];
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.items.get(id);
+  }
+
+  async save(entity: T): Promise<void> {
+    this.items.set(entity.id, entity);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+}
@@ -0,0 +1,25 @@
+// Storage abstraction used by the todo service layer
+
+import { OutboxEntry, Project, Tag, Todo } from '@/types/todo';
+
+export interface Entity {
+  id: string;
+}
+
+// Minimal async CRUD contract every storage backend implements
+export interface Repository<T extends Entity> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  save(entity: T): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export type TodoRepository = Repository<Todo>;
+
+export type TagRepository = Repository<Tag>;
+
+export type ProjectRepository = Repository<Project>;
+
+export type OutboxRepository = Repository<OutboxEntry>;
+
+export type StorageBackend = 'memory' | 'localStorage' | 'indexedDB';
@@ -0,0 +1,71 @@
+// Sample data shown the first time the app runs on a fresh storage backend
+
+import { Project, Tag, Todo, TodoPriority } from '@/types/todo';
+
+// Ranks follow the default for new todos (negated creation time), so they list newest first
+export const seedTodos: Todo[] = [
+  {
+    id: '1',
+    title: 'Complete project documentation',
+    description: 'Write comprehensive README and code comments for the portfolio project',
+    completed: false,
+    priority: TodoPriority.HIGH,
+    projectId: 'portfolio',
+    tags: ['docs'],
+    subtasks: [
+      { id: '1-1', title: 'Write the README', completed: true, order: 0 },
+      { id: '1-2', title: 'Document the API layer', completed: false, order: 1 },
+      { id: '1-3', title: 'Add code comments', completed: false, order: 2 }
+    ],
+    rank: -1705312800000,
+    version: 1,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  },
+  {
+    id: '2',
+    title: 'Review TypeScript best practices',
+    description: 'Study advanced TypeScript patterns for better code organization',
+    completed: true,
+    priority: TodoPriority.MEDIUM,
+    tags: ['learning'],
+    subtasks: [],
+    rank: -1705242600000,
+    version: 1,
+    createdAt: new Date('2024-01-14T14:30:00Z'),
+    updatedAt: new Date('2024-01-15T09:15:00Z'),
+    completedAt: new Date('2024-01-15T09:15:00Z')
+  },
+  {
+    id: '3',
+    title: 'Design system implementation',
+    description: 'Create consistent UI components with Tailwind CSS',
+    completed: false,
+    priority: TodoPriority.LOW,
+    projectId: 'portfolio',
+    tags: ['design'],
+    subtasks: [],
+    rank: -1705394700000,
+    version: 1,
+    createdAt: new Date('2024-01-16T08:45:00Z'),
+    updatedAt: new Date('2024-01-16T08:45:00Z')
+  }
+];
+
+export const seedTags: Tag[] = [
+  { id: 'docs', name: 'docs', color: 'blue', createdAt: new Date('2024-01-14T14:00:00Z') },
+  { id: 'learning', name: 'learning', color: 'purple', createdAt: new Date('2024-01-14T14:00:00Z') },
+  { id: 'design', name: 'design', color: 'pink', createdAt: new Date('2024-01-14T14:00:00Z') }
+];
+
+export const seedProjects: Project[] = [
+  {
+    id: 'portfolio',
+    name: 'Portfolio',
+    color: 'blue',
+    icon: 'briefcase',
+    archived: false,
+    createdAt: new Date('2024-01-14T14:00:00Z'),
+    updatedAt: new Date('2024-01-14T14:00:00Z')
+  }
+];
@@ -1,83 +1,333 @@
 // Mock API service for To-Do operations with simulated network latency
 
-import { Todo, CreateTodoInput, UpdateTodoInput, ApiResponse, ApiError as ApiErrorType } from '@/types/todo';
-
-// Mock data storage
-let mockTodos: Todo[] = [
-  {
-    id: '1',
-    title: 'Complete project documentation',
-    description: 'Write comprehensive README and code comments for the portfolio project',
-    completed: false,
-    createdAt: new Date('2024-01-15T10:00:00Z'),
-    updatedAt: new Date('2024-01-15T10:00:00Z')
-  },
-  {
-    id: '2', 
-    title: 'Review TypeScript best practices',
-    description: 'Study advanced TypeScript patterns for better code organization',
-    completed: true,
-    createdAt: new Date('2024-01-14T14:30:00Z'),
-    updatedAt: new Date('2024-01-15T09:15:00Z')
-  },
-  {
-    id: '3',
-    title: 'Design system implementation',
-    description: 'Create consistent UI components with Tailwind CSS',
-    completed: false,
-    createdAt: new Date('2024-01-16T08:45:00Z'),
-    updatedAt: new Date('2024-01-16T08:45:00Z')
-  }
-];
-
-// Simulate network latency
-const delay = (ms: number = 800) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Simulate random API failures (10% chance)
-const shouldSimulateError = () => Math.random() < 0.1;
-
-class TodoApiService {
-  // GET /todos - Fetch all todos
-  async getAllTodos(): Promise<ApiResponse<Todo[]>> {
-    await delay();
-    
-    if (shouldSimulateError()) {
+import {
+  Todo,
+  CreateTodoInput,
+  CreateTodoOptions,
+  UpdateTodoInput,
+  ApiResponse,
+  TodoApiClient,
+  ApiOperation,
+  TodoPriority,
+  Tag,
+  TagWithUsage,
+  CreateTagInput,
+  UpdateTagInput,
+  Subtask,
+  CreateSubtaskInput,
+  UpdateSubtaskInput,
+  RecurrenceRule,
+  Project,
+  ProjectWithCounts,
+  CreateProjectInput,
+  UpdateProjectInput,
+  TodoSort,
+  BulkUpdateTodosInput,
+  BatchOperation,
+  BatchMode,
+  BatchResult
+} from '@/types/todo';
+import {
+  createOutboxRepository,
+  createProjectRepository,
+  createTagRepository,
+  createTodoCacheRepository,
+  createTodoRepository,
+  ProjectRepository,
+  Repository,
+  TagRepository,
+  TodoRepository
+} from '@/services/storage';
+import { isSharedBetweenTabs, serviceConfig } from '@/services/config';
+import { ApiError } from '@/services/apiError';
+import { faultInjector } from '@/services/faultInjection';
+import { HttpTodoApiService } from '@/services/httpTodoApi';
+import { BroadcastingTodoApi } from '@/services/changeBroadcast';
+import { OfflineTodoApi } from '@/services/offlineTodoApi';
+import { RetryingTodoApi } from '@/services/retry';
+import { isPurgeDue, isTrashed } from '@/lib/todoFilters';
+import { applyTagChanges, DEFAULT_TAG_COLOR, normalizeTagName, TAG_COLORS, TAG_NAME_MAX_LENGTH } from '@/lib/tags';
+import { anchorRecurrence, getNextOccurrenceDate, RECURRENCE_FREQUENCIES, RECURRENCE_INTERVAL_MAX } from '@/lib/recurrence';
+import {
+  DEFAULT_PROJECT_COLOR,
+  DEFAULT_PROJECT_ICON,
+  PROJECT_ICON_NAMES,
+  PROJECT_NAME_MAX_LENGTH
+} from '@/lib/projects';
+import { reorderSubtaskList, sortSubtasks, SUBTASK_TITLE_MAX_LENGTH, withSubtasks } from '@/lib/subtasks';
+import { applyTodoUpdate } from '@/lib/todoUpdates';
+import { rankForNewTodo, reorderByRank } from '@/lib/ranking';
+import { DEFAULT_TODO_SORT, isSortDirection, isTodoSortField, SORT_FIELDS, sortTodos } from '@/lib/sorting';
+
+// Simulate network latency and failures as configured in the fault injector.
+// Timeouts throw directly; a true result means the caller should fail the request.
+const shouldSimulateError = async (operation: ApiOperation, targetId?: string) => {
+  const outcome = await faultInjector.simulate(operation, targetId);
+
+  if (outcome === 'timeout') {
+    throw new ApiError({
+      message: 'The request timed out. Please try again.',
+      code: 'TIMEOUT',
+      details: { operation, targetId }
+    });
+  }
+
+  return outcome === 'error';
+};
+
+const validateBulkIds = (ids: string[]) => {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new ApiError({
+      message: 'Select at least one todo',
+      code: 'VALIDATION_ERROR',
+      details: { field: 'ids' }
+    });
+  }
+};
+
+const BATCH_MAX_OPERATIONS = 100;
+
+const validateBatch = (operations: BatchOperation[], mode: BatchMode) => {
+  if (!Array.isArray(operations) || operations.length === 0 || operations.length > BATCH_MAX_OPERATIONS) {
+    throw new ApiError({
+      message: `A batch takes 1-${BATCH_MAX_OPERATIONS} operations`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'operations' }
+    });
+  }
+  if (mode !== 'atomic' && mode !== 'bestEffort') {
+    throw new ApiError({
+      message: 'Mode must be atomic or bestEffort',
+      code: 'VALIDATION_ERROR',
+      details: { field: 'mode' }
+    });
+  }
+};
+
+// Plain error object for a batch result
+const toBatchError = (error: unknown) =>
+  error instanceof ApiError
+    ? { message: error.message, code: error.code, details: error.details }
+    : { message: 'Unexpected error', code: 'UNKNOWN_ERROR' };
+
+// Results of a rolled back atomic batch: the failure plus every other operation marked as not applied
+const abortedBatchResults = (count: number, failedIndex: number, error: unknown): BatchResult[] =>
+  Array.from({ length: count }, (_, index) => ({
+    ok: false,
+    error: index === failedIndex
+      ? toBatchError(error)
+      : { message: `Not applied because operation ${failedIndex + 1} failed`, code: 'ABORTED' }
+  }));
+
+// Puts a repository back to an earlier listing: drops newer entities and rewrites the rest
+const restoreRepository = async <T extends { id: string }>(repository: Repository<T>, entities: T[]) => {
+  const keptIds = new Set(entities.map(entity => entity.id));
+  for (const entity of await repository.list()) {
+    if (!keptIds.has(entity.id)) await repository.remove(entity.id);
+  }
+  for (const entity of entities) {
+    await repository.save(entity);
+  }
+};
+
+// The update was based on an older copy of the todo; details.todo is the current one
+const versionConflict = (todo: Todo) => new ApiError({
+  message: 'This task was changed elsewhere. Review the latest version and try again.',
+  code: 'CONFLICT',
+  details: { todo }
+});
+
+// Changes name the version of the todo they were made against
+const assertVersion = (todo: Todo, version: number) => {
+  if (!Number.isInteger(version)) {
+    throw new ApiError({
+      message: 'Version is required',
+      code: 'VALIDATION_ERROR',
+      details: { field: 'version' }
+    });
+  }
+  if (version !== todo.version) throw versionConflict(todo);
+};
+
+// Every change to a todo moves it to the next version, trashing and re-ranking included
+const nextVersion = (todo: Todo): Todo => ({ ...todo, version: todo.version + 1, updatedAt: new Date() });
+
+const todoNotFound = () => new ApiError({ message: 'Todo not found', code: 'NOT_FOUND' });
+
+const subtaskNotFound = () => new ApiError({ message: 'Subtask not found', code: 'NOT_FOUND' });
+
+const validateSubtaskTitle = (title: string | undefined) => {
+  if (title !== undefined && (!title.trim() || title.trim().length > SUBTASK_TITLE_MAX_LENGTH)) {
+    throw new ApiError({
+      message: `Subtask titles must be 1-${SUBTASK_TITLE_MAX_LENGTH} characters long`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'title' }
+    });
+  }
+};
+
+const validateRecurrence = (rule: RecurrenceRule | null | undefined) => {
+  if (!rule) return;
+
+  const isValid =
+    RECURRENCE_FREQUENCIES.includes(rule.frequency) &&
+    Number.isInteger(rule.interval) &&
+    rule.interval >= 1 &&
+    rule.interval <= RECURRENCE_INTERVAL_MAX &&
+    (rule.weekdays ?? []).every(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    (rule.dayOfMonth === undefined || (Number.isInteger(rule.dayOfMonth) && rule.dayOfMonth >= 1 && rule.dayOfMonth <= 31));
+
+  if (!isValid) {
+    throw new ApiError({
+      message: `Recurrence needs a known frequency and an interval of 1-${RECURRENCE_INTERVAL_MAX}`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'recurrence' }
+    });
+  }
+};
+
+const projectNotFound = () => new ApiError({ message: 'Project not found', code: 'NOT_FOUND' });
+
+const validateProjectInput = (input: UpdateProjectInput) => {
+  if (input.name !== undefined && (!input.name.trim() || input.name.trim().length > PROJECT_NAME_MAX_LENGTH)) {
+    throw new ApiError({
+      message: `Project names must be 1-${PROJECT_NAME_MAX_LENGTH} characters long`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'name' }
+    });
+  }
+  if (input.color !== undefined && !TAG_COLORS.includes(input.color)) {
+    throw new ApiError({
+      message: `Color must be one of: ${TAG_COLORS.join(', ')}`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'color' }
+    });
+  }
+  if (input.icon !== undefined && !PROJECT_ICON_NAMES.includes(input.icon)) {
+    throw new ApiError({
+      message: `Icon must be one of: ${PROJECT_ICON_NAMES.join(', ')}`,
+      code: 'VALIDATION_ERROR',
+      details: { field: 'icon' }
+    });
+  }
+};
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const tagNotFound = () => new ApiError({ message: 'Tag not found', code: 'NOT_FOUND' });
+
+const validateTagInput = (input: UpdateTagInput) => {
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (!name || name.length > TAG_NAME_MAX_LENGTH) {
+      throw new ApiError({
+        message: `Tag names must be 1-${TAG_NAME_MAX_LENGTH} characters long`,
+        code: 'VALIDATION_ERROR',
+        details: { field: 'name' }
+      });
+    }
+  }
+  if (input.color !== undefined && !TAG_COLORS.includes(input.color)) {
+    throw new ApiError({
+      message: 'Unknown tag color',
+      code: 'VALIDATION_ERROR',
+      details: { field: 'color' }
+    });
+  }
+};
+
+interface TodoApiServiceOptions {
+  todos: TodoRepository;
+  tags: TagRepository;
+  projects: ProjectRepository;
+  trashRetentionDays: number;
+}
+
+class TodoApiService implements TodoApiClient {
+  private readonly repository: TodoRepository;
+  private readonly tagRepository: TagRepository;
+  private readonly projectRepository: ProjectRepository;
+  private readonly trashRetentionDays: number;
+  // Todo ids by idempotency key, so a retried create returns the todo the first attempt made
+  private readonly createdByKey = new Map<string, string>();
+
+  constructor({ todos, tags, projects, trashRetentionDays }: TodoApiServiceOptions) {
+    this.repository = todos;
+    this.tagRepository = tags;
+    this.projectRepository = projects;
+    this.trashRetentionDays = trashRetentionDays;
+  }
+
+  // GET /todos?sort=:field&order=:direction - Fetch all todos in the requested order
+  async getAllTodos(sort: TodoSort = DEFAULT_TODO_SORT): Promise<ApiResponse<Todo[]>> {
+    if (await shouldSimulateError('fetch')) {
       throw new ApiError({
         message: 'Failed to fetch todos. Please check your connection.',
         code: 'FETCH_ERROR'
       });
     }
 
+    if (!isTodoSortField(sort.field) || !isSortDirection(sort.direction)) {
+      throw new ApiError({
+        message: `Sort must be one of: ${SORT_FIELDS.join(', ')}, ascending or descending`,
+        code: 'VALIDATION_ERROR',
+        details: { field: 'sort' }
+      });
+    }
+
+    const todos = await this.purgeExpiredTodos();
+
     return {
-      data: [...mockTodos].sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      ),
+      data: sortTodos(todos.filter(todo => !isTrashed(todo)), sort),
       message: 'Todos fetched successfully',
       success: true
     };
   }
 
   // POST /todos - Create a new todo
-  async createTodo(input: CreateTodoInput): Promise<ApiResponse<Todo>> {
-    await delay();
+  async createTodo(input: CreateTodoInput, { idempotencyKey }: CreateTodoOptions = {}): Promise<ApiResponse<Todo>> {
+    // A retry of a create that went through gets its todo back, whatever happens to this request
+    const previousId = idempotencyKey && this.createdByKey.get(idempotencyKey);
+    const previous = previousId && await this.repository.get(previousId);
+    if (previous) {
+      return {
+        data: previous,
+        message: 'Todo already created',
+        success: true
+      };
+    }
 
-    if (shouldSimulateError()) {
+    if (await shouldSimulateError('create')) {
       throw new ApiError({
         message: 'Failed to create todo. Please try again.',
         code: 'CREATE_ERROR'
       });
     }
 
+    validateRecurrence(input.recurrence);
+    await this.assertProjectExists(input.projectId);
+
+    const now = new Date();
     const newTodo: Todo = {
-      id: Date.now().toString(),
+      id: generateId(),
       title: input.title.trim(),
       description: input.description?.trim() || '',
       completed: false,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      priority: input.priority ?? TodoPriority.NONE,
+      projectId: input.projectId,
+      tags: await this.resolveTagNames(input.tags ?? []),
+      dueDate: input.dueDate,
+      dueTime: input.dueDate ? input.dueTime : undefined,
+      subtasks: [],
+      recurrence: input.recurrence,
+      rank: rankForNewTodo(now),
+      version: 1,
+      createdAt: now,
+      updatedAt: now
     };
 
-    mockTodos.push(newTodo);
+    await this.repository.save(newTodo);
+    if (idempotencyKey) this.createdByKey.set(idempotencyKey, newTodo.id);
 
     return {
       data: newTodo,
@@ -88,31 +338,36 @@ class TodoApiService {
 
   // PUT /todos/:id - Update an existing todo
   async updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>> {
-    await delay();
-
-    if (shouldSimulateError()) {
+    if (await shouldSimulateError('update', id)) {
       throw new ApiError({
         message: 'Failed to update todo. Please try again.',
         code: 'UPDATE_ERROR'
       });
     }
 
-    const todoIndex = mockTodos.findIndex(todo => todo.id === id);
+    validateRecurrence(input.recurrence);
+    await this.assertProjectExists(input.projectId);
+    const existingTodo = await this.repository.get(id);
     
-    if (todoIndex === -1) {
+    if (!existingTodo || isTrashed(existingTodo)) {
       throw new ApiError({
         message: 'Todo not found',
         code: 'NOT_FOUND'
       });
     }
+    assertVersion(existingTodo, input.version);
 
-    const updatedTodo: Todo = {
-      ...mockTodos[todoIndex],
-      ...input,
-      updatedAt: new Date()
-    };
+    // Updates that leave tags out keep the todo's current ones
+    let updatedTodo = applyTodoUpdate(existingTodo, input.tags === undefined
+      ? input
+      : { ...input, tags: await this.resolveTagNames(input.tags) });
+    // Switching auto-completion on applies it to the current checklist right away
+    if (input.completeWithSubtasks) {
+      updatedTodo = withSubtasks(updatedTodo, updatedTodo.subtasks);
+    }
+    updatedTodo = await this.scheduleNextOccurrence(existingTodo, updatedTodo);
 
-    mockTodos[todoIndex] = updatedTodo;
+    await this.repository.save(updatedTodo);
 
     return {
       data: updatedTodo,
@@ -121,49 +376,774 @@ class TodoApiService {
     };
   }
 
-  // DELETE /todos/:id - Delete a todo
+  // DELETE /todos/:id - Move a todo to the trash
   async deleteTodo(id: string): Promise<ApiResponse<null>> {
-    await delay();
-
-    if (shouldSimulateError()) {
+    if (await shouldSimulateError('delete', id)) {
       throw new ApiError({
         message: 'Failed to delete todo. Please try again.',
         code: 'DELETE_ERROR'
       });
     }
 
-    const todoIndex = mockTodos.findIndex(todo => todo.id === id);
+    const existingTodo = await this.repository.get(id);
     
-    if (todoIndex === -1) {
+    if (!existingTodo || isTrashed(existingTodo)) {
       throw new ApiError({
         message: 'Todo not found',
         code: 'NOT_FOUND'
       });
     }
 
-    mockTodos.splice(todoIndex, 1);
+    await this.repository.save(nextVersion({ ...existingTodo, deletedAt: new Date() }));
 
     return {
       data: null,
-      message: 'Todo deleted successfully',
+      message: 'Todo moved to trash',
+      success: true
+    };
+  }
+
+  // POST /todos/reorder - Move todos after another one (or to the top); only the moved todos are re-ranked
+  async reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>> {
+    if (await shouldSimulateError('update')) {
+      throw new ApiError({
+        message: 'Failed to reorder todos. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    if (ids.length === 0 || (afterId !== null && ids.includes(afterId))) {
+      throw new ApiError({
+        message: 'Provide the todos to move and a different todo to place them after',
+        code: 'VALIDATION_ERROR',
+        details: { field: 'ids' }
+      });
+    }
+
+    const todos = (await this.repository.list()).filter(todo => !isTrashed(todo));
+    const referencedIds = afterId === null ? ids : [...ids, afterId];
+    const missingIds = referencedIds.filter(id => !todos.some(todo => todo.id === id));
+    if (missingIds.length > 0) {
+      throw new ApiError({
+        message: 'Todo not found',
+        code: 'NOT_FOUND',
+        details: { ids: missingIds }
+      });
+    }
+
+    const reranked = reorderByRank(todos, ids, afterId).map(nextVersion);
+    for (const todo of reranked) {
+      await this.repository.save(todo);
+    }
+
+    return {
+      data: reranked,
+      message: 'Todos reordered successfully',
+      success: true
+    };
+  }
+
+  // POST /todos/bulk-update - Apply the same changes to several todos in one request
+  async bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>> {
+    if (await shouldSimulateError('update')) {
+      throw new ApiError({
+        message: 'Failed to update todos. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    validateBulkIds(ids);
+    await this.assertProjectExists(input.projectId);
+    const todos = await this.findActiveTodos(ids);
+    const { addTags, removeTags, ...changes } = input;
+    const tagsToAdd = await this.resolveTagNames(addTags ?? []);
+
+    const updatedTodos: Todo[] = [];
+    for (const todo of todos) {
+      const updatedTodo = await this.scheduleNextOccurrence(
+        todo,
+        applyTodoUpdate(todo, { ...changes, tags: applyTagChanges(todo.tags, tagsToAdd, removeTags) })
+      );
+      await this.repository.save(updatedTodo);
+      updatedTodos.push(updatedTodo);
+    }
+
+    return {
+      data: updatedTodos,
+      message: `${updatedTodos.length} todo(s) updated successfully`,
       success: true
     };
   }
-}
 
-// API Error class
-class ApiError extends Error {
-  code?: string;
-  details?: any;
+  // POST /todos/bulk-delete - Move several todos to the trash in one request
+  async bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>> {
+    if (await shouldSimulateError('delete')) {
+      throw new ApiError({
+        message: 'Failed to delete todos. Please try again.',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    validateBulkIds(ids);
+    const todos = await this.findActiveTodos(ids);
+    const deletedAt = new Date();
+
+    for (const todo of todos) {
+      await this.repository.save(nextVersion({ ...todo, deletedAt }));
+    }
+
+    return {
+      data: null,
+      message: `${todos.length} todo(s) moved to trash`,
+      success: true
+    };
+  }
+
+  // POST /todos/batch - Run mixed create/update/delete operations, each with its own result.
+  // Atomic batches roll back everything (new tags included) as soon as one operation fails.
+  async batch(operations: BatchOperation[], mode: BatchMode = 'atomic'): Promise<ApiResponse<BatchResult[]>> {
+    validateBatch(operations, mode);
+    const snapshot = mode === 'atomic'
+      ? { todos: await this.repository.list(), tags: await this.tagRepository.list() }
+      : null;
+
+    const results: BatchResult[] = [];
+    for (const [index, operation] of operations.entries()) {
+      try {
+        results.push({ ok: true, data: await this.runBatchOperation(operation) });
+      } catch (error) {
+        if (snapshot) {
+          await restoreRepository(this.repository, snapshot.todos);
+          await restoreRepository(this.tagRepository, snapshot.tags);
+          throw new ApiError({
+            message: `No changes were applied because operation ${index + 1} failed: ${toBatchError(error).message}`,
+            code: 'BATCH_FAILED',
+            details: { results: abortedBatchResults(operations.length, index, error) }
+          });
+        }
+        results.push({ ok: false, error: toBatchError(error) });
+      }
+    }
+
+    const succeeded = results.filter(result => result.ok).length;
+    return {
+      data: results,
+      message: `${succeeded} of ${results.length} operation(s) succeeded`,
+      success: true
+    };
+  }
+
+  // GET /trash - Fetch trashed todos, most recently deleted first
+  async getTrashedTodos(): Promise<ApiResponse<Todo[]>> {
+    if (await shouldSimulateError('fetch')) {
+      throw new ApiError({
+        message: 'Failed to fetch trash. Please check your connection.',
+        code: 'FETCH_ERROR'
+      });
+    }
+
+    const todos = await this.purgeExpiredTodos();
+
+    return {
+      data: todos.filter(isTrashed).sort((a, b) =>
+        new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+      ),
+      message: 'Trash fetched successfully',
+      success: true
+    };
+  }
+
+  // POST /trash/restore - Move todos back out of the trash, keeping their ids and creation times
+  async restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>> {
+    if (await shouldSimulateError('restore')) {
+      throw new ApiError({
+        message: 'Failed to restore todos. Please try again.',
+        code: 'RESTORE_ERROR'
+      });
+    }
+
+    const trashedTodos = await this.findTrashedTodos(ids);
+    const restoredTodos = trashedTodos.map(todo => nextVersion({ ...todo, deletedAt: undefined }));
+
+    for (const todo of restoredTodos) {
+      await this.repository.save(todo);
+    }
+
+    return {
+      data: restoredTodos,
+      message: `${restoredTodos.length} todo(s) restored successfully`,
+      success: true
+    };
+  }
+
+  // DELETE /trash/:id - Permanently delete a trashed todo
+  async purgeTodo(id: string): Promise<ApiResponse<null>> {
+    if (await shouldSimulateError('purge', id)) {
+      throw new ApiError({
+        message: 'Failed to delete todo permanently. Please try again.',
+        code: 'PURGE_ERROR'
+      });
+    }
 
-  constructor(error: { message: string; code?: string; details?: any }) {
-    super(error.message);
-    this.name = 'ApiError';
-    this.code = error.code;
-    this.details = error.details;
+    await this.findTrashedTodos([id]);
+    await this.repository.remove(id);
+
+    return {
+      data: null,
+      message: 'Todo deleted permanently',
+      success: true
+    };
+  }
+
+  // DELETE /trash - Permanently delete everything in the trash
+  async emptyTrash(): Promise<ApiResponse<null>> {
+    if (await shouldSimulateError('purge')) {
+      throw new ApiError({
+        message: 'Failed to empty trash. Please try again.',
+        code: 'PURGE_ERROR'
+      });
+    }
+
+    const trashedTodos = (await this.repository.list()).filter(isTrashed);
+
+    for (const todo of trashedTodos) {
+      await this.repository.remove(todo.id);
+    }
+
+    return {
+      data: null,
+      message: `${trashedTodos.length} todo(s) deleted permanently`,
+      success: true
+    };
+  }
+
+  // GET /tags - Fetch all tags with the number of todos using each
+  async getTags(): Promise<ApiResponse<TagWithUsage[]>> {
+    if (await shouldSimulateError('fetch')) {
+      throw new ApiError({
+        message: 'Failed to fetch tags. Please check your connection.',
+        code: 'FETCH_ERROR'
+      });
+    }
+
+    const [tags, todos] = await Promise.all([this.tagRepository.list(), this.repository.list()]);
+    const usage = new Map<string, number>();
+    todos.filter(todo => !isTrashed(todo)).forEach(todo => {
+      todo.tags.forEach(name => {
+        const key = normalizeTagName(name);
+        usage.set(key, (usage.get(key) ?? 0) + 1);
+      });
+    });
+
+    return {
+      data: tags
+        .map(tag => ({ ...tag, usageCount: usage.get(normalizeTagName(tag.name)) ?? 0 }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      message: 'Tags fetched successfully',
+      success: true
+    };
+  }
+
+  // POST /tags - Create a tag
+  async createTag(input: CreateTagInput): Promise<ApiResponse<Tag>> {
+    if (await shouldSimulateError('create')) {
+      throw new ApiError({
+        message: 'Failed to create tag. Please try again.',
+        code: 'CREATE_ERROR'
+      });
+    }
+
+    validateTagInput(input);
+    await this.assertTagNameAvailable(input.name);
+
+    const tag: Tag = {
+      id: generateId(),
+      name: input.name.trim(),
+      color: input.color ?? DEFAULT_TAG_COLOR,
+      createdAt: new Date()
+    };
+    await this.tagRepository.save(tag);
+
+    return {
+      data: tag,
+      message: 'Tag created successfully',
+      success: true
+    };
+  }
+
+  // PUT /tags/:id - Rename and/or recolor a tag; renames are applied to every todo
+  async updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>> {
+    if (await shouldSimulateError('update', id)) {
+      throw new ApiError({
+        message: 'Failed to update tag. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    validateTagInput(input);
+    const existingTag = await this.tagRepository.get(id);
+    if (!existingTag) throw tagNotFound();
+
+    const name = input.name?.trim() ?? existingTag.name;
+    if (input.name !== undefined) {
+      await this.assertTagNameAvailable(name, id);
+    }
+
+    const updatedTag: Tag = { ...existingTag, name, color: input.color ?? existingTag.color };
+    await this.tagRepository.save(updatedTag);
+
+    if (name !== existingTag.name) {
+      await this.retagTodos([existingTag.name], name);
+    }
+
+    return {
+      data: updatedTag,
+      message: 'Tag updated successfully',
+      success: true
+    };
+  }
+
+  // POST /tags/merge - Fold the source tags into the target tag
+  async mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>> {
+    if (await shouldSimulateError('update', targetId)) {
+      throw new ApiError({
+        message: 'Failed to merge tags. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    const targetTag = await this.tagRepository.get(targetId);
+    const sourceTags = await Promise.all(
+      sourceIds.filter(id => id !== targetId).map(id => this.tagRepository.get(id))
+    );
+    if (!targetTag || sourceTags.some(tag => !tag)) throw tagNotFound();
+
+    await this.retagTodos(sourceTags.map(tag => tag.name), targetTag.name);
+    for (const tag of sourceTags) {
+      await this.tagRepository.remove(tag.id);
+    }
+
+    return {
+      data: targetTag,
+      message: `${sourceTags.length} tag(s) merged into "${targetTag.name}"`,
+      success: true
+    };
+  }
+
+  // DELETE /tags/:id - Delete a tag and remove it from every todo
+  async deleteTag(id: string): Promise<ApiResponse<null>> {
+    if (await shouldSimulateError('delete', id)) {
+      throw new ApiError({
+        message: 'Failed to delete tag. Please try again.',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    const existingTag = await this.tagRepository.get(id);
+    if (!existingTag) throw tagNotFound();
+
+    await this.retagTodos([existingTag.name], null);
+    await this.tagRepository.remove(id);
+
+    return {
+      data: null,
+      message: 'Tag deleted successfully',
+      success: true
+    };
+  }
+
+  // GET /projects - Fetch all projects (archived ones included) with their open todo counts
+  async getProjects(): Promise<ApiResponse<ProjectWithCounts[]>> {
+    if (await shouldSimulateError('fetch')) {
+      throw new ApiError({
+        message: 'Failed to fetch projects. Please check your connection.',
+        code: 'FETCH_ERROR'
+      });
+    }
+
+    const [projects, todos] = await Promise.all([this.projectRepository.list(), this.repository.list()]);
+    const openTodos = todos.filter(todo => !isTrashed(todo) && !todo.completed);
+
+    return {
+      data: projects
+        .map(project => ({
+          ...project,
+          activeCount: openTodos.filter(todo => todo.projectId === project.id).length
+        }))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+      message: 'Projects fetched successfully',
+      success: true
+    };
+  }
+
+  // POST /projects - Create a project
+  async createProject(input: CreateProjectInput): Promise<ApiResponse<Project>> {
+    if (await shouldSimulateError('create')) {
+      throw new ApiError({
+        message: 'Failed to create project. Please try again.',
+        code: 'CREATE_ERROR'
+      });
+    }
+
+    validateProjectInput({ ...input, name: input.name ?? '' });
+
+    const project: Project = {
+      id: generateId(),
+      name: input.name.trim(),
+      color: input.color ?? DEFAULT_PROJECT_COLOR,
+      icon: input.icon ?? DEFAULT_PROJECT_ICON,
+      archived: false,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await this.projectRepository.save(project);
+
+    return {
+      data: project,
+      message: 'Project created successfully',
+      success: true
+    };
+  }
+
+  // PUT /projects/:id - Rename, restyle, archive or unarchive a project
+  async updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>> {
+    if (await shouldSimulateError('update', id)) {
+      throw new ApiError({
+        message: 'Failed to update project. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    validateProjectInput(input);
+    const existingProject = await this.projectRepository.get(id);
+    if (!existingProject) throw projectNotFound();
+
+    const updatedProject: Project = {
+      ...existingProject,
+      ...input,
+      name: input.name?.trim() ?? existingProject.name,
+      updatedAt: new Date()
+    };
+    await this.projectRepository.save(updatedProject);
+
+    return {
+      data: updatedProject,
+      message: 'Project updated successfully',
+      success: true
+    };
+  }
+
+  // DELETE /projects/:id - Delete a project, moving its todos to the Inbox
+  async deleteProject(id: string): Promise<ApiResponse<null>> {
+    if (await shouldSimulateError('delete', id)) {
+      throw new ApiError({
+        message: 'Failed to delete project. Please try again.',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    if (!await this.projectRepository.get(id)) throw projectNotFound();
+
+    const todos = await this.repository.list();
+    for (const todo of todos.filter(todo => todo.projectId === id)) {
+      await this.repository.save(nextVersion({ ...todo, projectId: undefined }));
+    }
+    await this.projectRepository.remove(id);
+
+    return {
+      data: null,
+      message: 'Project deleted; its todos moved to the Inbox',
+      success: true
+    };
+  }
+
+  // POST /todos/:id/subtasks - Append a subtask
+  async addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>> {
+    if (await shouldSimulateError('update', todoId)) {
+      throw new ApiError({
+        message: 'Failed to add subtask. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    validateSubtaskTitle(input.title ?? '');
+    const todo = await this.getActiveTodo(todoId);
+    assertVersion(todo, input.version);
+    const subtask: Subtask = {
+      id: generateId(),
+      title: input.title.trim(),
+      completed: false,
+      order: todo.subtasks.length
+    };
+
+    return {
+      data: await this.saveSubtasks(todo, [...sortSubtasks(todo.subtasks), subtask]),
+      message: 'Subtask added successfully',
+      success: true
+    };
+  }
+
+  // PUT /todos/:id/subtasks/:subtaskId - Rename or toggle a subtask
+  async updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>> {
+    if (await shouldSimulateError('update', todoId)) {
+      throw new ApiError({
+        message: 'Failed to update subtask. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    validateSubtaskTitle(input.title);
+    const todo = await this.getActiveTodo(todoId);
+    assertVersion(todo, input.version);
+    if (!todo.subtasks.some(subtask => subtask.id === subtaskId)) throw subtaskNotFound();
+
+    const subtasks = sortSubtasks(todo.subtasks).map(subtask =>
+      subtask.id === subtaskId
+        ? {
+            ...subtask,
+            title: input.title?.trim() ?? subtask.title,
+            completed: input.completed ?? subtask.completed
+          }
+        : subtask
+    );
+
+    return {
+      data: await this.saveSubtasks(todo, subtasks),
+      message: 'Subtask updated successfully',
+      success: true
+    };
+  }
+
+  // POST /todos/:id/subtasks/reorder - Put subtasks in the given order
+  async reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>> {
+    if (await shouldSimulateError('update', todoId)) {
+      throw new ApiError({
+        message: 'Failed to reorder subtasks. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    const todo = await this.getActiveTodo(todoId);
+    assertVersion(todo, version);
+    if (subtaskIds.some(id => !todo.subtasks.some(subtask => subtask.id === id))) throw subtaskNotFound();
+
+    return {
+      data: await this.saveSubtasks(todo, reorderSubtaskList(todo.subtasks, subtaskIds)),
+      message: 'Subtasks reordered successfully',
+      success: true
+    };
+  }
+
+  // DELETE /todos/:id/subtasks/:subtaskId - Remove a subtask
+  async removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>> {
+    if (await shouldSimulateError('update', todoId)) {
+      throw new ApiError({
+        message: 'Failed to remove subtask. Please try again.',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    const todo = await this.getActiveTodo(todoId);
+    assertVersion(todo, version);
+    if (!todo.subtasks.some(subtask => subtask.id === subtaskId)) throw subtaskNotFound();
+
+    return {
+      data: await this.saveSubtasks(
+        todo,
+        sortSubtasks(todo.subtasks).filter(subtask => subtask.id !== subtaskId)
+      ),
+      message: 'Subtask removed successfully',
+      success: true
+    };
+  }
+
+  // A todo may only reference an existing project; null and undefined mean the Inbox
+  private async assertProjectExists(projectId: string | null | undefined) {
+    if (projectId && !await this.projectRepository.get(projectId)) throw projectNotFound();
+  }
+
+  // Batch operations go through the single-todo methods, so each one can fail on its own
+  private async runBatchOperation(operation: BatchOperation): Promise<Todo | null> {
+    switch (operation?.type) {
+      case 'create':
+        return (await this.createTodo(operation.input)).data;
+      case 'update':
+        return (await this.updateTodo(operation.id, operation.input)).data;
+      case 'delete':
+        return (await this.deleteTodo(operation.id)).data;
+      default:
+        throw new ApiError({
+          message: 'Operation type must be create, update or delete',
+          code: 'VALIDATION_ERROR',
+          details: { field: 'type' }
+        });
+    }
+  }
+
+  private async getActiveTodo(id: string): Promise<Todo> {
+    const todo = await this.repository.get(id);
+    if (!todo || isTrashed(todo)) throw todoNotFound();
+    return todo;
+  }
+
+  private async saveSubtasks(todo: Todo, subtasks: Subtask[]): Promise<Todo> {
+    const updatedTodo = await this.scheduleNextOccurrence(
+      todo,
+      withSubtasks(nextVersion(todo), subtasks)
+    );
+    await this.repository.save(updatedTodo);
+    return updatedTodo;
+  }
+
+  // Completing a recurring todo creates its next occurrence, once: reopening and completing
+  // it again reuses the occurrence generated the first time while that still exists
+  private async scheduleNextOccurrence(previous: Todo, updated: Todo): Promise<Todo> {
+    if (!updated.recurrence || previous.completed || !updated.completed) return updated;
+    if (updated.nextOccurrenceId && await this.repository.get(updated.nextOccurrenceId)) return updated;
+
+    const seriesId = updated.seriesId ?? updated.id;
+    const now = new Date();
+    const nextOccurrence: Todo = {
+      ...updated,
+      id: generateId(),
+      completed: false,
+      completedAt: undefined,
+      subtasks: updated.subtasks.map(subtask => ({ ...subtask, id: generateId(), completed: false })),
+      dueDate: getNextOccurrenceDate(updated) ?? undefined,
+      recurrence: anchorRecurrence(updated),
+      seriesId,
+      nextOccurrenceId: undefined,
+      rank: rankForNewTodo(now),
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.repository.save(nextOccurrence);
+
+    return { ...updated, seriesId, nextOccurrenceId: nextOccurrence.id };
+  }
+
+  // Maps names to existing tags (case-insensitively) and creates tags for new names
+  private async resolveTagNames(names: string[]): Promise<string[]> {
+    const tags = await this.tagRepository.list();
+    const byName = new Map(tags.map(tag => [normalizeTagName(tag.name), tag]));
+    const resolved: string[] = [];
+
+    // Every name is checked before any tag is created, so an invalid one leaves no tags behind
+    names.forEach(name => validateTagInput({ name: name.trim() }));
+    for (const rawName of names) {
+      const name = rawName.trim();
+      let tag = byName.get(normalizeTagName(name));
+      if (!tag) {
+        tag = { id: generateId(), name, color: DEFAULT_TAG_COLOR, createdAt: new Date() };
+        await this.tagRepository.save(tag);
+        byName.set(normalizeTagName(name), tag);
+      }
+      if (!resolved.includes(tag.name)) resolved.push(tag.name);
+    }
+
+    return resolved;
+  }
+
+  private async assertTagNameAvailable(name: string, exceptId?: string) {
+    const tags = await this.tagRepository.list();
+    const clash = tags.find(tag =>
+      tag.id !== exceptId && normalizeTagName(tag.name) === normalizeTagName(name)
+    );
+
+    if (clash) {
+      throw new ApiError({
+        message: `A tag named "${clash.name}" already exists`,
+        code: 'CONFLICT',
+        details: { tagId: clash.id }
+      });
+    }
+  }
+
+  // Replaces (or with null, removes) tag names on every todo, trashed ones included
+  private async retagTodos(names: string[], replacement: string | null) {
+    const targets = new Set(names.map(normalizeTagName));
+    const todos = await this.repository.list();
+
+    for (const todo of todos) {
+      if (!todo.tags.some(name => targets.has(normalizeTagName(name)))) continue;
+
+      const tags = todo.tags
+        .map(name => (targets.has(normalizeTagName(name)) ? replacement : name))
+        .filter((name, index, all): name is string => name !== null && all.indexOf(name) === index);
+      await this.repository.save(nextVersion({ ...todo, tags }));
+    }
+  }
+
+  // Every id must refer to an active todo, i.e. one that isn't in the trash
+  private async findActiveTodos(ids: string[]): Promise<Todo[]> {
+    const todos = await Promise.all([...new Set(ids)].map(id => this.repository.get(id)));
+    const missingIds = ids.filter(id => !todos.some(todo => todo?.id === id && !isTrashed(todo)));
+
+    if (missingIds.length > 0) {
+      throw new ApiError({
+        message: 'Todo not found',
+        code: 'NOT_FOUND',
+        details: { ids: missingIds }
+      });
+    }
+
+    return todos;
+  }
+
+  // Every id must refer to a todo currently in the trash
+  private async findTrashedTodos(ids: string[]): Promise<Todo[]> {
+    const todos = await Promise.all(ids.map(id => this.repository.get(id)));
+    const missingIds = ids.filter((_, index) => !todos[index] || !isTrashed(todos[index]));
+
+    if (missingIds.length > 0) {
+      throw new ApiError({
+        message: 'Todo not found in trash',
+        code: 'NOT_FOUND',
+        details: { ids: missingIds }
+      });
+    }
+
+    return todos;
+  }
+
+  // Drops todos whose retention period has passed and returns the rest
+  private async purgeExpiredTodos(): Promise<Todo[]> {
+    const todos = await this.repository.list();
+    const now = new Date();
+    const expired = todos.filter(todo => isPurgeDue(todo, this.trashRetentionDays, now));
+
+    for (const todo of expired) {
+      await this.repository.remove(todo.id);
+    }
+
+    return todos.filter(todo => !expired.includes(todo));
   }
 }
 
-// Export singleton instance
-export const todoApi = new TodoApiService();
-export { ApiError };
\ No newline at end of file
+const baseClient: TodoApiClient = serviceConfig.apiBaseUrl
+  ? new HttpTodoApiService(serviceConfig.apiBaseUrl)
+  : new TodoApiService({
+      todos: createTodoRepository(serviceConfig.storage),
+      tags: createTagRepository(serviceConfig.storage),
+      projects: createProjectRepository(serviceConfig.storage),
+      trashRetentionDays: serviceConfig.trashRetentionDays
+    });
+
+// Transient failures are retried before anything above sees them, e.g. before a write is queued offline
+const client: TodoApiClient = new RetryingTodoApi(baseClient, serviceConfig.retry);
+
+// Changes are broadcast to other tabs whenever they share the data; in-memory storage is per tab
+const sharedClient: TodoApiClient = isSharedBetweenTabs(serviceConfig)
+  ? new BroadcastingTodoApi(client)
+  : client;
+
+// Only a real backend can be unreachable, so only it gets the offline outbox; null for the mock
+export const offlineTodoApi: OfflineTodoApi | null = serviceConfig.apiBaseUrl
+  ? new OfflineTodoApi(sharedClient, createOutboxRepository(), createTodoCacheRepository())
+  : null;
+
+// Export singleton instance: the real backend when an API URL is configured, otherwise the
+// mock service backed by the storage selected at startup
+export const todoApi: TodoApiClient = offlineTodoApi ?? sharedClient;
+export { ApiError, TodoApiService };
\ No newline at end of file
@@ -1,23 +1,216 @@
 // TypeScript interfaces for the To-Do application
 
+export enum TodoPriority {
+  NONE = 'none',
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  URGENT = 'urgent'
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'afterCompletion';
+
+// RRULE-style schedule. `interval` repeats every N days/weeks/months/years (or N days after
+// completion); weekly rules run on `weekdays` (0 = Sunday) and monthly rules repeat either the
+// day of the month or its nth weekday ("3rd Tuesday", 5 meaning the last one)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[];
+  monthlyMode?: 'dayOfMonth' | 'nthWeekday';
+  // Day of the month a dayOfMonth rule falls on, so the 31st comes back after a 28-day February
+  dayOfMonth?: number;
+}
+
+// Checklist step inside a todo; `order` is its zero-based position
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  order: number;
+}
+
 export interface Todo {
   id: string;
   title: string;
   description?: string;
   completed: boolean;
+  priority: TodoPriority;
+  // Owning project; todos without one live in the Inbox
+  projectId?: string;
+  // Tag names; each has a matching Tag record holding its color
+  tags: string[];
+  // Calendar day the todo is due (local midnight); dueTime narrows it to "HH:mm"
+  dueDate?: Date;
+  dueTime?: string;
+  subtasks: Subtask[];
+  // Complete the todo once every subtask is done (and reopen it when one is unchecked)
+  completeWithSubtasks?: boolean;
+  recurrence?: RecurrenceRule;
+  // Shared by every occurrence of a recurring todo (the id of the first one)
+  seriesId?: string;
+  // Set once completing this occurrence has generated the next one
+  nextOccurrenceId?: string;
+  // Manual sort position, ascending; fractional so a move only rewrites the moved todo
+  rank: number;
+  // Incremented on every change to the todo's content; updates must name the version they were based on
+  version: number;
   createdAt: Date;
   updatedAt: Date;
+  // When the todo was last marked done; cleared when it is reopened
+  completedAt?: Date;
+  // Set when the todo is moved to the trash; purged after the retention period
+  deletedAt?: Date;
 }
 
 export interface CreateTodoInput {
   title: string;
   description?: string;
+  priority?: TodoPriority;
+  projectId?: string;
+  tags?: string[];
+  dueDate?: Date;
+  dueTime?: string;
+  recurrence?: RecurrenceRule;
+}
+
+// A create retried with the same key returns the todo the first attempt made instead of a duplicate
+export interface CreateTodoOptions {
+  idempotencyKey?: string;
 }
 
+// null clears an optional field
 export interface UpdateTodoInput {
   title?: string;
   description?: string;
   completed?: boolean;
+  priority?: TodoPriority;
+  // null moves the todo to the Inbox
+  projectId?: string | null;
+  tags?: string[];
+  dueDate?: Date | null;
+  dueTime?: string | null;
+  completeWithSubtasks?: boolean;
+  recurrence?: RecurrenceRule | null;
+  // Version of the todo the change was made against; a stale one fails with CONFLICT
+  version: number;
+}
+
+// Applied to every todo of a bulk update; tags are added and removed rather than replaced
+export interface BulkUpdateTodosInput {
+  completed?: boolean;
+  priority?: TodoPriority;
+  // null moves the todos to the Inbox
+  projectId?: string | null;
+  // null clears the due date (and time); a new date keeps each todo's due time
+  dueDate?: Date | null;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+export type BatchOperation =
+  | { type: 'create'; input: CreateTodoInput }
+  | { type: 'update'; id: string; input: UpdateTodoInput }
+  | { type: 'delete'; id: string };
+
+// 'atomic' applies every operation or none of them; 'bestEffort' keeps whichever succeed
+export type BatchMode = 'atomic' | 'bestEffort';
+
+// Outcome of one batch operation, in request order; data is the created or updated todo (null for deletes)
+export type BatchResult =
+  | { ok: true; data: Todo | null }
+  | { ok: false; error: ApiError };
+
+// A todo write made while the server was unreachable, waiting to be replayed in `sequence` order.
+// Creates keep the locally built todo so it can be shown (and referenced) before it is synced,
+// and the idempotency key every attempt at sending them uses.
+export interface OutboxEntry {
+  id: string;
+  sequence: number;
+  operation: BatchOperation;
+  todo?: Todo;
+  idempotencyKey?: string;
+  // Replays the server failed with a transient error; the entry is dropped once it runs out
+  failedAttempts?: number;
+  queuedAt: Date;
+}
+
+// Subtask changes name the parent's version like todo updates do
+export interface CreateSubtaskInput {
+  title: string;
+  version: number;
+}
+
+export interface UpdateSubtaskInput {
+  title?: string;
+  completed?: boolean;
+  version: number;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+  createdAt: Date;
+}
+
+export interface TagWithUsage extends Tag {
+  // Number of todos (outside the trash) carrying the tag
+  usageCount: number;
+}
+
+export interface CreateTagInput {
+  name: string;
+  color?: TagColor;
+}
+
+export interface UpdateTagInput {
+  name?: string;
+  color?: TagColor;
+}
+
+export type ProjectIcon = 'folder' | 'briefcase' | 'home' | 'book' | 'code' | 'heart' | 'star' | 'rocket' | 'cart';
+
+// Projects share the tag color palette
+export interface Project {
+  id: string;
+  name: string;
+  color: TagColor;
+  icon: ProjectIcon;
+  // Archived projects are hidden from navigation but keep their todos
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProjectWithCounts extends Project {
+  // Open todos (outside the trash) in the project
+  activeCount: number;
+}
+
+export interface CreateProjectInput {
+  name: string;
+  color?: TagColor;
+  icon?: ProjectIcon;
+}
+
+export interface UpdateProjectInput {
+  name?: string;
+  color?: TagColor;
+  icon?: ProjectIcon;
+  archived?: boolean;
+}
+
+export type TodoSortField = 'manual' | 'dueDate' | 'priority' | 'title' | 'updatedAt' | 'completedAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Todos without a due date (or not completed, for completedAt) always sort last
+export interface TodoSort {
+  field: TodoSortField;
+  direction: SortDirection;
 }
 
 export interface ApiResponse<T> {
@@ -32,14 +225,49 @@ export interface ApiError {
   details?: any;
 }
 
+// Contract shared by the mock service and the HTTP client
+export interface TodoApiClient {
+  // Defaults to the manual order
+  getAllTodos(sort?: TodoSort): Promise<ApiResponse<Todo[]>>;
+  createTodo(input: CreateTodoInput, options?: CreateTodoOptions): Promise<ApiResponse<Todo>>;
+  updateTodo(id: string, input: UpdateTodoInput): Promise<ApiResponse<Todo>>;
+  deleteTodo(id: string): Promise<ApiResponse<null>>;
+  // Moves `ids` (in that order) right after `afterId`, or to the top when it is null; returns the re-ranked todos
+  reorderTodos(ids: string[], afterId: string | null): Promise<ApiResponse<Todo[]>>;
+  // Bulk operations fail as a whole when any of the todos is missing
+  bulkUpdateTodos(ids: string[], input: BulkUpdateTodosInput): Promise<ApiResponse<Todo[]>>;
+  bulkDeleteTodos(ids: string[]): Promise<ApiResponse<null>>;
+  // Mixed operations with one result each. A failed atomic batch throws BATCH_FAILED with
+  // the per-operation results in its details; best-effort batches always resolve.
+  batch(operations: BatchOperation[], mode?: BatchMode): Promise<ApiResponse<BatchResult[]>>;
+  getTrashedTodos(): Promise<ApiResponse<Todo[]>>;
+  restoreTodos(ids: string[]): Promise<ApiResponse<Todo[]>>;
+  purgeTodo(id: string): Promise<ApiResponse<null>>;
+  emptyTrash(): Promise<ApiResponse<null>>;
+  getTags(): Promise<ApiResponse<TagWithUsage[]>>;
+  createTag(input: CreateTagInput): Promise<ApiResponse<Tag>>;
+  updateTag(id: string, input: UpdateTagInput): Promise<ApiResponse<Tag>>;
+  mergeTags(sourceIds: string[], targetId: string): Promise<ApiResponse<Tag>>;
+  deleteTag(id: string): Promise<ApiResponse<null>>;
+  getProjects(): Promise<ApiResponse<ProjectWithCounts[]>>;
+  createProject(input: CreateProjectInput): Promise<ApiResponse<Project>>;
+  updateProject(id: string, input: UpdateProjectInput): Promise<ApiResponse<Project>>;
+  // Todos of a deleted project move to the Inbox
+  deleteProject(id: string): Promise<ApiResponse<null>>;
+  // Subtask endpoints return the whole parent todo, since its completion may change too
+  addSubtask(todoId: string, input: CreateSubtaskInput): Promise<ApiResponse<Todo>>;
+  updateSubtask(todoId: string, subtaskId: string, input: UpdateSubtaskInput): Promise<ApiResponse<Todo>>;
+  reorderSubtasks(todoId: string, subtaskIds: string[], version: number): Promise<ApiResponse<Todo>>;
+  removeSubtask(todoId: string, subtaskId: string, version: number): Promise<ApiResponse<Todo>>;
+}
+
 export enum TodoFilter {
   ALL = 'all',
   ACTIVE = 'active',
-  COMPLETED = 'completed'
+  COMPLETED = 'completed',
+  OVERDUE = 'overdue',
+  TODAY = 'today',
+  UPCOMING = 'upcoming'
 }
 
-export interface LoadingState {
-  isLoading: boolean;
-  operation?: 'create' | 'update' | 'delete' | 'fetch';
-  targetId?: string;
-}
\ No newline at end of file
+export type ApiOperation = 'fetch' | 'create' | 'update' | 'delete' | 'restore' | 'purge';
\ No newline at end of file
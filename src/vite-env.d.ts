@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TODO_STORAGE?: string;
+  readonly VITE_TODO_API_URL?: string;
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+  readonly VITE_API_RETRY_ATTEMPTS?: string;
+  readonly VITE_API_RETRY_BASE_DELAY_MS?: string;
+  readonly VITE_API_RETRY_MAX_DELAY_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}